@@ -1,11 +1,22 @@
-import { IoClose, IoCog, IoMoon, IoSunny } from "solid-icons/io";
 import {
+  IoBookmarks,
+  IoClose,
+  IoCog,
+  IoDownload,
+  IoList,
+  IoSearch,
+} from "solid-icons/io";
+import {
+  batch,
   createEffect,
+  createMemo,
+  createResource,
   createSignal,
   For,
   on,
   onCleanup,
   onMount,
+  Show,
 } from "solid-js";
 import {
   Dialog,
@@ -13,6 +24,25 @@ import {
   DialogHeader,
   DialogTitle,
 } from "~/components/ui/dialog";
+import AnnotationLayer from "./components/AnnotationLayer";
+import AutoScrollControls from "./components/AutoScrollControls";
+import CacheSettings from "./components/CacheSettings";
+import ChallengeBanner from "./components/ChallengeBanner";
+import ChapterListDrawer from "./components/ChapterListDrawer";
+import DataSettings from "./components/DataSettings";
+import ExportDialog from "./components/ExportDialog";
+import FontSettings from "./components/FontSettings";
+import NotesPanel from "./components/NotesPanel";
+import PaginatedView, { type PageControls } from "./components/PaginatedView";
+import ReadAloudControls from "./components/ReadAloudControls";
+import ReplacementRules from "./components/ReplacementRules";
+import SearchDialog from "./components/SearchDialog";
+import ShortcutHelp from "./components/ShortcutHelp";
+import ShortcutSettings from "./components/ShortcutSettings";
+import StyleLayerSettings, {
+  LayerBadge,
+} from "./components/StyleLayerSettings";
+import ThemeSettings from "./components/ThemeSettings";
 import { Button } from "./components/ui/button";
 import {
   Card,
@@ -20,15 +50,6 @@ import {
   CardFooter,
   CardHeader,
 } from "./components/ui/card";
-import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuGroup,
-  DropdownMenuGroupLabel,
-  DropdownMenuRadioGroup,
-  DropdownMenuRadioItem,
-  DropdownMenuTrigger,
-} from "./components/ui/dropdown-menu";
 import {
   Slider,
   SliderFill,
@@ -36,130 +57,360 @@ import {
   SliderTrack,
 } from "./components/ui/slider";
 import { Toggle } from "./components/ui/toggle";
-import { fetchChapter } from "./lib/fetch";
+import {
+  type Annotation,
+  annotationsToMarkdown,
+  loadAnnotations,
+  saveAnnotations,
+  sortAnnotations,
+} from "./lib/annotations";
+import { cacheChapter, getCachedNovelChapters } from "./lib/chapterCache";
+import { downloadBlob } from "./lib/export";
+import {
+  type ChapterFetchError,
+  fetchChapter,
+  fetchNovelMetadata,
+} from "./lib/fetch";
+import {
+  findFont,
+  type FontOption,
+  loadWebFont,
+  registerUploadedFonts,
+} from "./lib/fonts";
+import { isMeteredConnection, PrefetchScheduler } from "./lib/prefetch";
+import type { SiteAdapter } from "./sites";
+import {
+  loadReadChapters,
+  loadReadingPosition,
+  markChapterRead,
+  type ReadingPosition,
+  saveReadingPosition,
+} from "./lib/readingProgress";
+import {
+  applyReplacementRules,
+  loadReplacementRules,
+  type ReplacementRule,
+  rulesForNovel,
+  saveReplacementRules,
+} from "./lib/replacements";
+import {
+  clampToRange,
+  defaultUserStyle,
+  differingSettings,
+  isOverridable,
+  layoutVariables,
+  loadDeviceStyle,
+  loadNovelStyle,
+  loadUserStyle,
+  mergeStyleLayers,
+  OVERRIDABLE_SETTINGS,
+  type OverridableSetting,
+  pickOverridable,
+  saveDeviceStyle,
+  saveNovelStyle,
+  saveUserStyle,
+  SLIDER_RANGES,
+  type StyleLayer,
+  type StyleOverride,
+  styleSource,
+  type UserStyle,
+} from "./lib/settings";
+import {
+  clearSearchMark,
+  markSearchResult,
+  prepareChapter,
+  type SearchResult,
+} from "./lib/search";
+import {
+  DEFAULT_SHORTCUTS,
+  findShortcutAction,
+  isTypingTarget,
+  type ShortcutAction,
+  type ShortcutMap,
+} from "./lib/shortcuts";
+import { findTheme, themeVariables } from "./lib/themes";
 import { URLManager } from "./lib/URLManager";
 import { debounce } from "./lib/utils";
+import type { Chapter, ChapterData, NovelMetadata } from "./types";
 
 // Types
-interface Chapter {
-  id: number;
-  value: string;
-  text: string;
-  selected: boolean;
-}
-
 interface ReaderProps {
   availableChapters: Chapter[];
   novelUrl: string;
   initialChapterIndex: number;
   initialChapterData: ChapterData;
+  siteAdapter: SiteAdapter;
 }
 
-interface ChapterData {
-  id: number;
-  uri: string;
-  title: string;
-  content: string;
-}
-
-interface UserStyle {
-  fontSize: number[];
-  lineHeight: number[];
-  fontFamily: string;
-  backgroundColor: keyof typeof BACKGROUND_COLORS;
-  theme: string;
+// A failed chapter load, shown as a retry card above or below the chapters
+interface LoadError {
+  placement: "before" | "after";
+  chapter: Chapter;
+  error: ChapterFetchError;
+  retry: () => void;
 }
 
 // Constants
-const BACKGROUND_COLORS = {
-  white: "bg-white text-black",
-  sepia: "bg-amber-50 text-stone-800",
-  dark: "bg-gray-900 text-gray-100",
-};
-
 const SCROLL_TRIGGER_PERCENTAGE = 60;
+const SCROLL_UP_TRIGGER_PERCENTAGE = 15;
+const READ_PERCENTAGE = 95;
+const MAX_LOADED_CHAPTERS = 3;
 const SCROLL_DEBOUNCE_MS = 100;
-const DEFAULT_USER_STYLE: UserStyle = {
-  fontSize: [16],
-  lineHeight: [1.7],
-  fontFamily: "serif",
-  backgroundColor: "white",
-  theme: "light",
+const PROGRESS_SAVE_DEBOUNCE_MS = 500;
+const PREFETCH_CONCURRENCY = 2;
+const NEXT_CHAPTER_POLL_MS = 250;
+const WORD_DENSITY_TTL_MS = 1000;
+// Share of the viewport a screen-scroll shortcut moves, leaving some overlap
+const SCREEN_SCROLL_RATIO = 0.85;
+const BLOCKING_ERRORS: ChapterFetchError["kind"][] = ["forbidden", "challenge"];
+
+// Leave the reader and show the site's own page again
+const closeReader = () => {
+  localStorage.setItem("chapterReaderEnabled", "false");
+  location.reload();
+};
+
+// Look up the paragraphs rendered inside a chapter card
+const getParagraphElements = (chapterElement: HTMLElement) =>
+  chapterElement.querySelector(".chapter-content")?.children ?? [];
+
+// Find the saved position for this novel, unless it is where we already are
+const findResumePosition = (
+  novelUrl: string,
+  availableChapters: Chapter[],
+  initialChapterIndex: number
+): ReadingPosition | null => {
+  const saved = loadReadingPosition(novelUrl);
+  if (!saved) return null;
+
+  // The chapter list can change between visits, so trust the URL over the index
+  const indexByUrl = availableChapters.findIndex(
+    (chapter) => chapter.value === saved.chapterUrl
+  );
+  const chapterIndex = indexByUrl !== -1 ? indexByUrl : saved.chapterIndex;
+  if (chapterIndex < 0 || chapterIndex >= availableChapters.length) {
+    return null;
+  }
+  if (chapterIndex === initialChapterIndex && saved.paragraph === 0) {
+    return null;
+  }
+  return { ...saved, chapterIndex };
 };
 
 // Components
 const ChapterReader = (props: ReaderProps) => {
   // State management
-  const [userStyle, setUserStyle] = createSignal<UserStyle>({
-    ...DEFAULT_USER_STYLE,
-  });
+  // Settings come in layers: global, then overrides for this novel, then
+  // overrides for this device
+  const [globalStyle, setGlobalStyle] = createSignal<UserStyle>(
+    defaultUserStyle()
+  );
+  const [novelStyle, setNovelStyle] = createSignal<StyleOverride>({});
+  const [deviceStyle, setDeviceStyle] = createSignal<StyleOverride>({});
+  const userStyle = createMemo(() =>
+    mergeStyleLayers(globalStyle(), novelStyle(), deviceStyle())
+  );
   const [showSettings, setShowSettings] = createSignal(false);
+  const [showChapterList, setShowChapterList] = createSignal(false);
+  const [showExport, setShowExport] = createSignal(false);
+  const [showNotes, setShowNotes] = createSignal(false);
+  const [showSearch, setShowSearch] = createSignal(false);
+  const [annotations, setAnnotations] = createSignal(
+    loadAnnotations(props.novelUrl)
+  );
+  const [replacementRules, setReplacementRules] = createSignal(
+    loadReplacementRules()
+  );
+  const [showShortcutHelp, setShowShortcutHelp] = createSignal(false);
+  const [currentChapterIndex, setCurrentChapterIndex] = createSignal(
+    props.initialChapterIndex
+  );
+  const [readChapters, setReadChapters] = createSignal(
+    loadReadChapters(props.novelUrl)
+  );
   const [nextChapterIndex, setNextChapterIndex] = createSignal(
     props.initialChapterIndex + 1
   );
+  const [prevChapterIndex, setPrevChapterIndex] = createSignal(
+    props.initialChapterIndex - 1
+  );
   const [chapters, setChapters] = createSignal<ChapterData[]>([
     props.initialChapterData,
   ]);
   const [lastChapter, setLastChapter] = createSignal(false);
+  const [firstChapter, setFirstChapter] = createSignal(
+    props.initialChapterIndex <= 0
+  );
   const [fetching, setFetching] = createSignal(false);
+  const [loadError, setLoadError] = createSignal<LoadError | null>(null);
+  // Set while the site is serving a bot challenge; all loading is paused
+  const [blocked, setBlocked] = createSignal<LoadError | null>(null);
   const [scrollAnchorInfo, setScrollAnchorInfo] = createSignal<{
     id: number;
     offset: number;
   } | null>(null);
 
-  let currentChapterRef: HTMLDivElement | undefined;
+  // Where the paginated view should open the current chapter
+  const [pageTarget, setPageTarget] = createSignal({ paragraph: 0 });
+
+  const [resumePosition, setResumePosition] =
+    createSignal<ReadingPosition | null>(
+      findResumePosition(
+        props.novelUrl,
+        props.availableChapters,
+        props.initialChapterIndex
+      )
+    );
+
+  let lastScrollY = window.scrollY;
+  let mainElement: HTMLElement | undefined;
+  let pageControls: PageControls | undefined;
+  let wordDensity = { value: 0, measuredAt: 0 };
+  // Bumped whenever the loaded window is replaced, so that fetches started
+  // for the old window are dropped instead of being spliced into the new one
+  let windowGeneration = 0;
 
   // User style getters for convenience
   const fontSize = () => userStyle().fontSize;
   const lineHeight = () => userStyle().lineHeight;
-  const fontFamily = () => userStyle().fontFamily;
-  const bgColor = () => userStyle().backgroundColor;
-  const theme = () => userStyle().theme;
+  const [uploadedFonts, { refetch: refetchUploadedFonts }] = createResource(
+    registerUploadedFonts,
+    { initialValue: [] }
+  );
+  const font = () => findFont(userStyle().fontFamily, uploadedFonts());
+  const colorTheme = () =>
+    findTheme(userStyle().backgroundColor, userStyle().customThemes);
+  // Light or dark controls, following the colour theme
+  const theme = () => (colorTheme().dark ? "dark" : "light");
+  const paginated = () => userStyle().layoutMode === "paginated";
+  const textLayout = createMemo(() => layoutVariables(userStyle()));
+  const novelRules = createMemo(() =>
+    rulesForNovel(replacementRules(), props.novelUrl)
+  );
+  // Chapter content as shown, with the reader's replacement rules applied.
+  // Each chapter is parsed once per rule set rather than on every read.
+  const renderedContents = createMemo(() => {
+    novelRules();
+    return new WeakMap<ChapterData, string>();
+  });
+  const renderContent = (chapter: ChapterData) => {
+    const cache = renderedContents();
+    let content = cache.get(chapter);
+    if (content === undefined) {
+      content = applyReplacementRules(chapter.content, novelRules());
+      cache.set(chapter, content);
+    }
+    return content;
+  };
+  const shortcuts = (): ShortcutMap => ({
+    ...DEFAULT_SHORTCUTS,
+    ...userStyle().shortcuts,
+  });
 
-  // User style setters that update the entire style object
+  const getStyleSource = (key: keyof UserStyle) =>
+    styleSource(key, novelStyle(), deviceStyle());
+
+  // Changes go to the layer the value currently comes from, so editing an
+  // overridden setting updates the override rather than the hidden global
   const updateUserStyle = <K extends keyof UserStyle>(
     key: K,
     value: UserStyle[K]
   ) => {
-    setUserStyle((prev) => ({ ...prev, [key]: value }));
+    const source = getStyleSource(key);
+    if (source === "global" || !isOverridable(key)) {
+      setGlobalStyle((prev) => ({ ...prev, [key]: value }));
+    } else if (source === "novel") {
+      setNovelStyle((prev) => ({ ...prev, [key]: value }));
+    } else {
+      setDeviceStyle((prev) => ({ ...prev, [key]: value }));
+    }
+  };
+
+  // Global settings as they were loaded. Edits to settings nothing
+  // overrides yet land in the global layer, so pinning a setting to a novel
+  // or device puts its global value back: trying values out for one novel
+  // doesn't change the defaults of every other.
+  let globalBaseline = globalStyle();
+  // What the global settings were loaded over; only changes from these are
+  // stored
+  let styleDefaults = defaultUserStyle();
+
+  // What a layer would hold: the novel layer never sees device values, as
+  // those must stay on this device
+  const layerValues = (layer: Exclude<StyleLayer, "global">) =>
+    layer === "novel"
+      ? mergeStyleLayers(globalStyle(), novelStyle(), {})
+      : userStyle();
+
+  // Settings worth pinning to a layer: the ones it already pins and the ones
+  // changed since the reader opened
+  const suggestedOverrides = (layer: Exclude<StyleLayer, "global">) => {
+    const below = mergeStyleLayers(
+      globalBaseline,
+      layer === "device" ? novelStyle() : {},
+      {}
+    );
+    const current = layer === "novel" ? novelStyle() : deviceStyle();
+    const changed = differingSettings(layerValues(layer), below);
+    return OVERRIDABLE_SETTINGS.filter(
+      (key) => key in current || changed.includes(key)
+    );
+  };
+
+  // Copy the picked settings as shown into a layer, or drop that layer's
+  // overrides. Unpicked settings keep falling through to the layers below.
+  const saveStyleOverride = (
+    layer: Exclude<StyleLayer, "global">,
+    keys: OverridableSetting[]
+  ) => {
+    const values = pickOverridable(layerValues(layer), keys);
+    const restored = pickOverridable(
+      globalBaseline,
+      keys.filter((key) => getStyleSource(key) === "global")
+    );
+    batch(() => {
+      setGlobalStyle((prev) => ({ ...prev, ...restored }));
+      (layer === "novel" ? setNovelStyle : setDeviceStyle)(values);
+    });
   };
+  const clearStyleOverride = (layer: Exclude<StyleLayer, "global">) =>
+    (layer === "novel" ? setNovelStyle : setDeviceStyle)({});
 
   // Load user preferences on mount
   const loadUserPreferences = () => {
     const colorSchema = document.body.getAttribute("data-schema");
     document.body.classList.add("dark");
-    if (colorSchema === "dark") {
-      updateUserStyle("backgroundColor", "dark");
-      updateUserStyle("theme", "dark");
-    } else {
-      updateUserStyle("theme", "light");
-    }
-
-    try {
-      const savedStyle = JSON.parse(localStorage.getItem("userStyle") || "{}");
-      if (Object.keys(savedStyle).length) {
-        setUserStyle((prevStyle: any) => ({
-          ...prevStyle,
-          ...savedStyle,
-        }));
-      }
-    } catch (e) {
-      console.error("Failed to load user preferences:", e);
-    }
+    // Follow the site's dark mode until the reader picks colours of their own
+    const defaults = defaultUserStyle();
+    styleDefaults =
+      colorSchema === "dark"
+        ? { ...defaults, backgroundColor: "dark" }
+        : defaults;
+    setGlobalStyle(loadUserStyle(styleDefaults));
+    globalBaseline = globalStyle();
+    setNovelStyle(loadNovelStyle(props.novelUrl));
+    setDeviceStyle(loadDeviceStyle());
   };
 
-  // Save user preferences when they change
-  const saveUserPreferences = () => {
-    try {
-      localStorage.setItem("userStyle", JSON.stringify(userStyle()));
-    } catch (e) {
-      console.error("Failed to save user preferences:", e);
-    }
+  // Start over from the defaults, keeping custom themes as they are user
+  // content rather than preferences. Overrides for this novel and device go
+  // too, otherwise the reset would not show.
+  const resetUserPreferences = () => {
+    setGlobalStyle((prev) => ({
+      ...defaultUserStyle(),
+      customThemes: prev.customThemes,
+    }));
+    globalBaseline = globalStyle();
+    setNovelStyle({});
+    setDeviceStyle({});
   };
 
-  // Calculate how far down the user has scrolled through the current chapter
-  const calculateScrollPercentage = () => {
-    const el = currentChapterRef;
+  // Look up the rendered card for a loaded chapter
+  const getChapterElement = (chapter: ChapterData | undefined) =>
+    chapter ? document.getElementById(`chapter-${chapter.id}`) : null;
+
+  // Calculate how far down the user has scrolled through a chapter
+  const calculateScrollPercentage = (el: HTMLElement | null) => {
     if (!el) return 0;
 
     const rect = el.getBoundingClientRect();
@@ -181,13 +432,212 @@ const ChapterReader = (props: ReaderProps) => {
       : Math.min(100, (scrolledPastHeight / elementHeight) * 100);
   };
 
+  // Index in availableChapters of a chapter in the loaded window
+  const chapterIndexOf = (position: number) => prevChapterIndex() + 1 + position;
+
+  // Find the chapter and paragraph at the top of the viewport
+  const findCurrentPosition = (): ReadingPosition | null => {
+    const loaded = chapters();
+    for (let i = 0; i < loaded.length; i++) {
+      const chapterElement = getChapterElement(loaded[i]);
+      if (!chapterElement) continue;
+      if (chapterElement.getBoundingClientRect().bottom <= 0) continue;
+
+      const paragraphs = Array.from(getParagraphElements(chapterElement));
+      const paragraph = Math.max(
+        0,
+        paragraphs.findIndex((p) => p.getBoundingClientRect().bottom > 0)
+      );
+      const chapterIndex = chapterIndexOf(i);
+      return {
+        chapterIndex,
+        chapterUrl:
+          props.availableChapters[chapterIndex]?.value ?? loaded[i].uri,
+        chapterTitle: loaded[i].title,
+        paragraph,
+        updatedAt: Date.now(),
+      };
+    }
+    return null;
+  };
+
+  // Mark every loaded chapter the reader has scrolled to the end of as read
+  const updateReadChapters = () => {
+    chapters().forEach((chapter, i) => {
+      const url = props.availableChapters[chapterIndexOf(i)]?.value;
+      if (!url || readChapters().has(url)) return;
+      if (
+        calculateScrollPercentage(getChapterElement(chapter)) >= READ_PERCENTAGE
+      ) {
+        markChapterRead(props.novelUrl, url);
+        setReadChapters((prev) => new Set(prev).add(url));
+      }
+    });
+  };
+
+  const handleProgressSave = debounce(() => {
+    const position = findCurrentPosition();
+    if (position) {
+      saveReadingPosition(props.novelUrl, position);
+      setCurrentChapterIndex(position.chapterIndex);
+    }
+    updateReadChapters();
+  }, PROGRESS_SAVE_DEBOUNCE_MS);
+
+  // Fetch a chapter from the list through the offline cache
+  const fetchListedChapter = (chapter: Chapter, signal?: AbortSignal) =>
+    fetchChapter({
+      url: chapter.value,
+      title: chapter.text,
+      novelUrl: props.novelUrl,
+      adapter: props.siteAdapter,
+      signal,
+    });
+
+  const prefetcher = new PrefetchScheduler(
+    fetchListedChapter,
+    PREFETCH_CONCURRENCY
+  );
+
+  // The novel page is only needed for exports, and only once
+  let novelMetadata: Promise<NovelMetadata> | null = null;
+  const loadNovelMetadata = () =>
+    (novelMetadata ??= fetchNovelMetadata(props.novelUrl, props.siteAdapter));
+
+  // Fetch a chapter from the list, going through the prefetched chapters and
+  // the offline cache
+  const requestChapter = (chapter: Chapter) => prefetcher.request(chapter);
+
+  // Read on their own, so other style changes don't reschedule prefetching
+  const prefetchCount = createMemo(() => userStyle().prefetchCount[0]);
+  const prefetchOnMetered = createMemo(() => userStyle().prefetchOnMetered);
+
+  // The chapters after the loaded window that should be fetched ahead of time
+  const upcomingChapters = () => {
+    if (blocked()) return [];
+    if (!prefetchOnMetered() && isMeteredConnection()) return [];
+    return props.availableChapters.slice(
+      nextChapterIndex(),
+      nextChapterIndex() + prefetchCount()
+    );
+  };
+
+  // Scroll so that a paragraph of a loaded chapter sits at the top
+  const scrollToParagraph = (chapter: ChapterData, paragraph: number) => {
+    const chapterElement = getChapterElement(chapter);
+    if (!chapterElement) return;
+    const target =
+      getParagraphElements(chapterElement)[paragraph] ?? chapterElement;
+    target.scrollIntoView({ block: "start", behavior: "instant" });
+  };
+
+  // Show a chapter, fetching it and replacing the loaded window if needed
+  const jumpToChapter = async (index: number, paragraph = 0) => {
+    if (index < 0 || index >= props.availableChapters.length) return;
+
+    const position = index - (prevChapterIndex() + 1);
+    const loaded = chapters();
+    if (position >= 0 && position < loaded.length) {
+      scrollToParagraph(loaded[position], paragraph);
+      // Together, so the paginated view opens the chapter once
+      batch(() => {
+        setCurrentChapterIndex(index);
+        setPageTarget({ paragraph });
+      });
+      return;
+    }
+
+    const generation = ++windowGeneration;
+    setFetching(true);
+    const chapterToFetch = props.availableChapters[index];
+
+    try {
+      const { data: newChapter, error } = await requestChapter(chapterToFetch);
+      if (generation !== windowGeneration) return;
+
+      if (newChapter) {
+        batch(() => {
+          setLoadError(null);
+          setScrollAnchorInfo(null);
+          setChapters([newChapter]);
+          setPrevChapterIndex(index - 1);
+          setNextChapterIndex(index + 1);
+          setFirstChapter(index <= 0);
+          setLastChapter(false);
+          setCurrentChapterIndex(index);
+          setPageTarget({ paragraph });
+        });
+        scrollToParagraph(newChapter, paragraph);
+      } else if (error.kind !== "aborted") {
+        reportLoadError({
+          placement: "before",
+          chapter: chapterToFetch,
+          error,
+          retry: () => jumpToChapter(index, paragraph),
+        });
+      }
+    } catch (error) {
+      console.error("Failed to jump to chapter:", error);
+    } finally {
+      if (generation === windowGeneration) setFetching(false);
+    }
+  };
+
+  // Challenges pause everything until passed, other errors get a retry card
+  const reportLoadError = (error: LoadError) => {
+    if (BLOCKING_ERRORS.includes(error.error.kind)) {
+      setBlocked(error);
+    } else {
+      setLoadError(error);
+    }
+  };
+
+  const resumeAfterChallenge = () => {
+    const error = blocked();
+    setBlocked(null);
+    error?.retry();
+  };
+
+  const retryLoad = () => {
+    const error = loadError();
+    setLoadError(null);
+    error?.retry();
+  };
+
+  const resumeReading = () => {
+    const position = resumePosition();
+    setResumePosition(null);
+    if (position) jumpToChapter(position.chapterIndex, position.paragraph);
+  };
+
   // Handle scroll events
   const handleScroll = debounce(() => {
-    if (lastChapter() || fetching()) return;
+    const scrollingUp = window.scrollY < lastScrollY;
+    lastScrollY = window.scrollY;
+    if (fetching() || blocked()) return;
 
-    const scrollPercentage = calculateScrollPercentage();
-    if (scrollPercentage > SCROLL_TRIGGER_PERCENTAGE) {
-      loadNextChapter();
+    const loaded = chapters();
+    if (!lastChapter() && loadError()?.placement !== "after") {
+      const lastElement = getChapterElement(loaded[loaded.length - 1]);
+      if (calculateScrollPercentage(lastElement) > SCROLL_TRIGGER_PERCENTAGE) {
+        loadNextChapter();
+        return;
+      }
+    }
+
+    // Only look backwards when the reader is actually heading up, otherwise
+    // opening a chapter would immediately pull in the one before it.
+    if (
+      !firstChapter() &&
+      scrollingUp &&
+      loadError()?.placement !== "before"
+    ) {
+      const firstElement = getChapterElement(loaded[0]);
+      if (
+        calculateScrollPercentage(firstElement) < SCROLL_UP_TRIGGER_PERCENTAGE
+      ) {
+        loadPreviousChapter();
+      }
     }
   }, SCROLL_DEBOUNCE_MS);
 
@@ -203,50 +653,94 @@ const ChapterReader = (props: ReaderProps) => {
       return;
     }
     setFetching(true);
+    const generation = windowGeneration;
     const chapterToFetch = props.availableChapters[nextChapterIndex()];
 
     try {
-      const newChapter = await fetchChapter({
-        url: chapterToFetch.value,
-        title: chapterToFetch.text,
-      });
+      const { data: newChapter, error } = await requestChapter(chapterToFetch);
+      if (generation !== windowGeneration) return;
 
       if (newChapter) {
-        updateChapters(newChapter);
+        appendChapter(newChapter);
         setNextChapterIndex(nextChapterIndex() + 1);
-      } else {
-        setLastChapter(true);
+      } else if (error.kind !== "aborted") {
+        // Keep infinite scroll alive: the reader decides when to try again
+        reportLoadError({
+          placement: "after",
+          chapter: chapterToFetch,
+          error,
+          retry: loadNextChapter,
+        });
         setScrollAnchorInfo(null);
       }
     } catch (error) {
       console.error("Failed to fetch next chapter:", error);
     } finally {
-      setFetching(false);
+      if (generation === windowGeneration) setFetching(false);
+    }
+  };
+
+  // Fetch and load the chapter before the first loaded one
+  const loadPreviousChapter = async () => {
+    if (fetching() || firstChapter()) return;
+    if (
+      prevChapterIndex() < 0 ||
+      prevChapterIndex() >= props.availableChapters.length
+    ) {
+      setFirstChapter(true);
+      return;
+    }
+    setFetching(true);
+    const generation = windowGeneration;
+    const chapterToFetch = props.availableChapters[prevChapterIndex()];
+
+    try {
+      const { data: newChapter, error } = await requestChapter(chapterToFetch);
+      if (generation !== windowGeneration) return;
+
+      if (newChapter) {
+        prependChapter(newChapter);
+        setPrevChapterIndex(prevChapterIndex() - 1);
+      } else if (error.kind !== "aborted") {
+        reportLoadError({
+          placement: "before",
+          chapter: chapterToFetch,
+          error,
+          retry: loadPreviousChapter,
+        });
+        setScrollAnchorInfo(null);
+      }
+    } catch (error) {
+      console.error("Failed to fetch previous chapter:", error);
+    } finally {
+      if (generation === windowGeneration) setFetching(false);
+    }
+  };
+
+  // Remember where the viewport sits relative to a chapter so it can be
+  // restored once the list above it changes
+  const anchorScrollTo = (chapter: ChapterData) => {
+    const anchorElement = getChapterElement(chapter);
+
+    if (anchorElement) {
+      setScrollAnchorInfo({
+        id: chapter.id,
+        offset: window.scrollY - anchorElement.offsetTop,
+      });
+    } else {
+      console.warn("Could not find anchor element for scroll preservation.");
+      setScrollAnchorInfo(null);
     }
   };
 
-  // Update chapters and handle scroll preservation
-  const updateChapters = (newChapter: ChapterData) => {
+  // Append a chapter, unloading the oldest one once the window is full
+  const appendChapter = (newChapter: ChapterData) => {
     setChapters((prevChapters) => {
-      if (prevChapters.length >= 3) {
+      if (prevChapters.length >= MAX_LOADED_CHAPTERS) {
         // If removing the first chapter, anchor to the second chapter
-        const anchorChapter = prevChapters[1];
-        const anchorElement = document.getElementById(
-          `chapter-${anchorChapter.id}`
-        );
-
-        if (anchorElement) {
-          const scrollOffset = window.scrollY - anchorElement.offsetTop;
-          setScrollAnchorInfo({
-            id: anchorChapter.id,
-            offset: scrollOffset,
-          });
-        } else {
-          console.warn(
-            "Could not find anchor element for scroll preservation."
-          );
-          setScrollAnchorInfo(null);
-        }
+        anchorScrollTo(prevChapters[1]);
+        setPrevChapterIndex((index) => index + 1);
+        setFirstChapter(false);
 
         // Remove first chapter, add the new one
         return [...prevChapters.slice(1), newChapter];
@@ -258,6 +752,233 @@ const ChapterReader = (props: ReaderProps) => {
     });
   };
 
+  // Prepend a chapter, unloading the newest one once the window is full
+  const prependChapter = (newChapter: ChapterData) => {
+    setChapters((prevChapters) => {
+      // Everything shifts down by the new chapter's height, so keep the
+      // viewport pinned to the chapter that is currently first
+      anchorScrollTo(prevChapters[0]);
+
+      if (prevChapters.length >= MAX_LOADED_CHAPTERS) {
+        setNextChapterIndex((index) => index - 1);
+        setLastChapter(false);
+        return [newChapter, ...prevChapters.slice(0, -1)];
+      }
+      return [newChapter, ...prevChapters];
+    });
+  };
+
+  // The chapter card and paragraph reading aloud should start from
+  const readAloudStartPosition = () => {
+    const position = findCurrentPosition();
+    if (!position) return null;
+    const chapter = chapters()[position.chapterIndex - prevChapterIndex() - 1];
+    const chapterElement = getChapterElement(chapter);
+    return chapterElement
+      ? { chapterElement, paragraph: position.paragraph }
+      : null;
+  };
+
+  // The card after a loaded chapter, loading the next chapter if needed so
+  // that reading aloud carries on through the normal infinite scroll flow
+  const getFollowingChapterElement = async (chapterElement: HTMLElement) => {
+    const following = () => {
+      const loaded = chapters();
+      const i = loaded.findIndex(
+        (chapter) => getChapterElement(chapter) === chapterElement
+      );
+      return i === -1 ? null : getChapterElement(loaded[i + 1]);
+    };
+
+    while (fetching()) {
+      await new Promise((resolve) => setTimeout(resolve, NEXT_CHAPTER_POLL_MS));
+    }
+    if (following()) return following();
+    if (blocked()) return null;
+
+    await loadNextChapter();
+    return following();
+  };
+
+  // Words per pixel of height in the chapter on screen, for auto-scrolling
+  // by reading speed. Measured at most once a second as it walks the text.
+  const measureWordDensity = () => {
+    if (Date.now() - wordDensity.measuredAt < WORD_DENSITY_TTL_MS) {
+      return wordDensity.value;
+    }
+    const position = findCurrentPosition();
+    const chapter =
+      position && chapters()[position.chapterIndex - prevChapterIndex() - 1];
+    const content = getChapterElement(chapter ?? undefined)?.querySelector(
+      ".chapter-content"
+    );
+    const height = content?.getBoundingClientRect().height ?? 0;
+    const words =
+      content?.textContent?.split(/\s+/).filter(Boolean).length ?? 0;
+    wordDensity = {
+      value: height > 0 ? words / height : 0,
+      measuredAt: Date.now(),
+    };
+    return wordDensity.value;
+  };
+
+  const changeFontSize = (delta: number) =>
+    updateUserStyle("fontSize", [
+      clampToRange(fontSize()[0] + delta, SLIDER_RANGES.fontSize),
+    ]);
+
+  const shortcutHandlers: Record<ShortcutAction, () => void> = {
+    nextChapter: () => jumpToChapter(currentChapterIndex() + 1),
+    previousChapter: () => jumpToChapter(currentChapterIndex() - 1),
+    // Pages turn one at a time, the same as taps and swipes
+    nextPage: () => pageControls?.nextPage(),
+    previousPage: () => pageControls?.previousPage(),
+    scrollDown: () =>
+      paginated()
+        ? pageControls?.nextPage()
+        : window.scrollBy({
+            top: window.innerHeight * SCREEN_SCROLL_RATIO,
+            behavior: "smooth",
+          }),
+    scrollUp: () =>
+      paginated()
+        ? pageControls?.previousPage()
+        : window.scrollBy({
+            top: -window.innerHeight * SCREEN_SCROLL_RATIO,
+            behavior: "smooth",
+          }),
+    openSettings: () => setShowSettings(true),
+    openChapterList: () => setShowChapterList(true),
+    openNotes: () => setShowNotes(true),
+    search: () => openSearch(),
+    toggleTheme: () =>
+      updateUserStyle(
+        "backgroundColor",
+        theme() === "dark" ? "white" : "dark"
+      ),
+    increaseFontSize: () => changeFontSize(1),
+    decreaseFontSize: () => changeFontSize(-1),
+    closeReader,
+    showHelp: () => setShowShortcutHelp(true),
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.defaultPrevented || isTypingTarget(event.target)) return;
+    // Open dialogs own the keyboard, so Escape closes them and not the reader
+    if (document.querySelector('[role="dialog"]')) return;
+
+    const action = findShortcutAction(shortcuts(), event, paginated());
+    if (!action) return;
+    event.preventDefault();
+    shortcutHandlers[action]();
+  };
+
+  // The chapter shown in paginated mode
+  const currentChapter = () =>
+    chapters()[currentChapterIndex() - prevChapterIndex() - 1] ?? chapters()[0];
+  const currentContent = createMemo(() => renderContent(currentChapter()));
+
+  // Paginated mode has no scrolling, so progress is saved per page turn
+  const handlePageChange = (paragraph: number, lastPage: boolean) => {
+    const chapterIndex = currentChapterIndex();
+    const url = props.availableChapters[chapterIndex]?.value;
+    saveReadingPosition(props.novelUrl, {
+      chapterIndex,
+      chapterUrl: url ?? currentChapter().uri,
+      chapterTitle: currentChapter().title,
+      paragraph,
+      updatedAt: Date.now(),
+    });
+    if (lastPage && url && !readChapters().has(url)) {
+      markChapterRead(props.novelUrl, url);
+      setReadChapters((prev) => new Set(prev).add(url));
+    }
+  };
+
+  // Chapter list position of every chapter URL, for ordering annotations
+  const chapterOrder = new Map(
+    props.availableChapters.map((chapter, i) => [chapter.value, i])
+  );
+  const sortedAnnotations = createMemo(() =>
+    sortAnnotations(annotations(), chapterOrder)
+  );
+
+  // Annotations are keyed by the chapter list URL, like reading progress
+  const chapterOfContent = (content: Element) => {
+    const uri = content.closest("[data-url]")?.getAttribute("data-url");
+    const position = chapters().findIndex((chapter) => chapter.uri === uri);
+    if (position === -1) return null;
+    const chapter = chapters()[position];
+    const listed = props.availableChapters[chapterIndexOf(position)];
+    return { url: listed?.value ?? chapter.uri, title: chapter.title };
+  };
+
+  const jumpToAnnotation = (annotation: Annotation) => {
+    const index = chapterOrder.get(annotation.chapterUrl);
+    if (index === undefined) return;
+    setShowNotes(false);
+    jumpToChapter(index, annotation.paragraph);
+  };
+
+  const exportAnnotations = async () => {
+    const metadata = await loadNovelMetadata();
+    const markdown = annotationsToMarkdown(metadata.title, sortedAnnotations());
+    downloadBlob(
+      new Blob([markdown], { type: "text/markdown;charset=utf-8" }),
+      `${metadata.title} - ملاحظات.md`
+    );
+  };
+
+  const openSearch = () => {
+    clearSearchMark();
+    setShowSearch(true);
+  };
+
+  // Rendered chapters first, as they may differ from an older cached copy
+  const getSearchableChapters = async (includeCached: boolean) => {
+    const loaded = chapters().map((chapter, i) => {
+      const index = chapterIndexOf(i);
+      const url = props.availableChapters[index]?.value ?? chapter.uri;
+      return prepareChapter(url, index, {
+        ...chapter,
+        content: renderContent(chapter),
+      });
+    });
+    if (!includeCached) return loaded;
+
+    const loadedUrls = new Set(loaded.map((chapter) => chapter.url));
+    const cached = (await getCachedNovelChapters(props.novelUrl))
+      .filter(({ url }) => chapterOrder.has(url) && !loadedUrls.has(url))
+      .map(({ url, data }) =>
+        prepareChapter(url, chapterOrder.get(url)!, {
+          ...data,
+          content: renderContent(data),
+        })
+      );
+    return [...loaded, ...cached].sort((a, b) => a.index - b.index);
+  };
+
+  const jumpToSearchResult = async (result: SearchResult) => {
+    setShowSearch(false);
+    await jumpToChapter(result.chapterIndex, result.paragraph);
+
+    const position = result.chapterIndex - (prevChapterIndex() + 1);
+    const content = paginated()
+      ? mainElement?.querySelector(".chapter-content")
+      : getChapterElement(chapters()[position])?.querySelector(
+          ".chapter-content"
+        );
+    const range = content && markSearchResult(content, result);
+    if (range && !paginated()) {
+      // Centre the match rather than leaving it under the sticky header
+      const rect = range.getBoundingClientRect();
+      window.scrollBy({
+        top: rect.top - window.innerHeight / 3,
+        behavior: "instant",
+      });
+    }
+  };
+
   // Restore scroll position after chapters update
   const restoreScrollPosition = () => {
     const anchorInfo = scrollAnchorInfo();
@@ -280,27 +1001,163 @@ const ChapterReader = (props: ReaderProps) => {
   // Setup effects and event handlers
   onMount(() => {
     loadUserPreferences();
+    // The page we started on was parsed for free, so keep it for offline use
+    cacheChapter(
+      props.novelUrl,
+      props.availableChapters[props.initialChapterIndex]?.value ??
+        props.initialChapterData.uri,
+      props.initialChapterData
+    );
     window.addEventListener("scroll", handleScroll);
+    window.addEventListener("scroll", handleProgressSave);
+    window.addEventListener("keydown", handleKeyDown);
     new URLManager();
 
-    onCleanup(() => window.removeEventListener("scroll", handleScroll));
+    onCleanup(() => {
+      prefetcher.destroy();
+      window.removeEventListener("scroll", handleScroll);
+      window.removeEventListener("scroll", handleProgressSave);
+      window.removeEventListener("keydown", handleKeyDown);
+    });
   });
 
+  // Fetch the selected web font the first time it is used
+  createEffect(() => loadWebFont(font()));
+
   // Handle effect for user preferences
   createEffect(() => {
-    saveUserPreferences();
+    saveUserStyle(globalStyle(), styleDefaults);
   });
+  createEffect(() => saveNovelStyle(props.novelUrl, novelStyle()));
+  createEffect(() => saveDeviceStyle(deviceStyle()));
+  createEffect(
+    on(annotations, (list) => saveAnnotations(props.novelUrl, list), {
+      defer: true,
+    })
+  );
+  createEffect(on(replacementRules, saveReplacementRules, { defer: true }));
+
+  // Keep the prefetch queue in step with the loaded window; jumping elsewhere
+  // cancels whatever is no longer ahead of the reader
+  createEffect(() => prefetcher.schedule(upcomingChapters()));
+
+  // Switching layouts keeps the reader on the paragraph they were at; the
+  // last saved position is used as the old layout is already gone
+  createEffect(
+    on(
+      paginated,
+      (isPaginated) => {
+        const saved = loadReadingPosition(props.novelUrl);
+        const paragraph =
+          saved?.chapterIndex === currentChapterIndex() ? saved.paragraph : 0;
+        if (isPaginated) {
+          setPageTarget({ paragraph });
+        } else {
+          queueMicrotask(() =>
+            jumpToChapter(currentChapterIndex(), paragraph)
+          );
+        }
+      },
+      { defer: true }
+    )
+  );
 
   // Effect to restore scroll position
   createEffect(on(chapters, restoreScrollPosition, { defer: true }));
 
   // Render the Reader UI
   return (
-    <div class={"min-h-screen flex flex-col " + theme()}>
+    <div
+      class={
+        (paginated() ? "h-screen overflow-hidden" : "min-h-screen") +
+        " flex flex-col " +
+        theme()
+      }
+      style={themeVariables(colorTheme())}
+    >
       {/* Header */}
       <ReaderHeader
         title={chapters()[0].title}
         onSettingsClick={() => setShowSettings(true)}
+        onChapterListClick={() => setShowChapterList(true)}
+        onNotesClick={() => setShowNotes(true)}
+        onSearchClick={openSearch}
+        onExportClick={() => setShowExport(true)}
+      />
+
+      {/* Full-Text Search */}
+      <SearchDialog
+        open={showSearch()}
+        onOpenChange={setShowSearch}
+        getChapters={getSearchableChapters}
+        onSelect={jumpToSearchResult}
+      />
+
+      {/* Highlights and Notes */}
+      <NotesPanel
+        open={showNotes()}
+        onOpenChange={setShowNotes}
+        annotations={sortedAnnotations()}
+        onSelect={jumpToAnnotation}
+        onDelete={(annotation) =>
+          setAnnotations((prev) => prev.filter((a) => a.id !== annotation.id))
+        }
+        onExport={exportAnnotations}
+      />
+      <AnnotationLayer
+        container={() => mainElement}
+        annotations={annotations()}
+        chapterOf={chapterOfContent}
+        onChange={setAnnotations}
+      />
+
+      {/* Export Dialog */}
+      <ExportDialog
+        open={showExport()}
+        onOpenChange={setShowExport}
+        chapters={props.availableChapters}
+        currentIndex={currentChapterIndex()}
+        loadedChapters={chapters()}
+        fetchChapter={fetchListedChapter}
+        loadNovelMetadata={loadNovelMetadata}
+      />
+
+      {/* Chapter List Drawer */}
+      <ChapterListDrawer
+        open={showChapterList()}
+        onOpenChange={setShowChapterList}
+        chapters={props.availableChapters}
+        currentIndex={currentChapterIndex()}
+        readChapters={readChapters()}
+        onSelect={(index) => {
+          setShowChapterList(false);
+          jumpToChapter(index);
+        }}
+      />
+
+      <Show when={blocked()}>
+        {(error) => (
+          <ChallengeBanner
+            chapter={error().chapter}
+            onResume={resumeAfterChallenge}
+          />
+        )}
+      </Show>
+
+      <Show when={resumePosition()}>
+        {(position) => (
+          <ResumePrompt
+            position={position()}
+            onResume={resumeReading}
+            onDismiss={() => setResumePosition(null)}
+          />
+        )}
+      </Show>
+
+      <ShortcutHelp
+        open={showShortcutHelp()}
+        onOpenChange={setShowShortcutHelp}
+        shortcuts={shortcuts()}
       />
 
       {/* Settings Dialog */}
@@ -308,7 +1165,20 @@ const ChapterReader = (props: ReaderProps) => {
         open={showSettings()}
         onOpenChange={setShowSettings}
         userStyle={userStyle()}
+        suggestedOverrides={suggestedOverrides}
         onStyleChange={updateUserStyle}
+        styleSource={getStyleSource}
+        novelOverride={novelStyle()}
+        deviceOverride={deviceStyle()}
+        onSaveOverride={saveStyleOverride}
+        onClearOverride={clearStyleOverride}
+        onReset={resetUserPreferences}
+        uploadedFonts={uploadedFonts()}
+        onUploadedFontsChange={refetchUploadedFonts}
+        novelUrl={props.novelUrl}
+        replacementRules={replacementRules()}
+        onReplacementRulesChange={setReplacementRules}
+        previewContent={currentChapter().content}
       />
 
       {/* Main Content */}
@@ -316,22 +1186,91 @@ const ChapterReader = (props: ReaderProps) => {
         style={{
           "--line-height": `${lineHeight()[0]}`,
           "--fontSize": `${fontSize()[0]}px`,
+          ...textLayout(),
+          "font-family": font().stack,
         }}
-        class={`${fontFamily()}`}
+        class={paginated() ? "flex-1 min-h-0" : ""}
+        ref={mainElement}
       >
-        <For each={chapters()}>
-          {(chapter) => (
-            <ChapterCard
-              chapter={chapter}
-              backgroundColor={BACKGROUND_COLORS[bgColor()]}
-              theme={theme()}
-              ref={currentChapterRef}
-            />
+        <Show when={loadError()?.placement === "before" && loadError()}>
+          {(error) => (
+            <LoadErrorCard loadError={error()} onRetry={retryLoad} />
           )}
-        </For>
+        </Show>
+        <Show
+          when={paginated()}
+          fallback={
+            <For each={chapters()}>
+              {(chapter) => (
+                <ChapterCard
+                  chapter={chapter}
+                  content={renderContent(chapter)}
+                  backgroundColor="reader-surface"
+                  theme={theme()}
+                  debug={userStyle().debug}
+                />
+              )}
+            </For>
+          }
+        >
+          <PaginatedView
+            chapter={currentChapter()}
+            content={currentContent()}
+            target={pageTarget()}
+            backgroundColor="reader-surface"
+            fontSize={fontSize()[0]}
+            lineHeight={lineHeight()[0]}
+            fontFamily={font().stack}
+            layout={textLayout()}
+            hasPreviousChapter={currentChapterIndex() > 0}
+            onNextChapter={() => jumpToChapter(currentChapterIndex() + 1)}
+            onPreviousChapter={() => jumpToChapter(currentChapterIndex() - 1)}
+            onPageChange={handlePageChange}
+            ref={(controls) => (pageControls = controls)}
+          />
+        </Show>
+        <Show when={loadError()?.placement === "after" && loadError()}>
+          {(error) => (
+            <LoadErrorCard loadError={error()} onRetry={retryLoad} />
+          )}
+        </Show>
       </main>
 
-      <footer class="sticky bottom-0 p-4 backdrop-blur-sm bg-opacity-80 flex justify-end"></footer>
+      {/* Scrolling aids, which have nothing to do between page turns */}
+      <Show when={!paginated()}>
+        <footer class="sticky bottom-0 p-4 backdrop-blur-sm bg-opacity-80 flex flex-wrap justify-end gap-4">
+          <AutoScrollControls
+            speed={
+              userStyle().autoScrollUnit === "words"
+                ? userStyle().autoScrollWpm[0]
+                : userStyle().autoScrollSpeed[0]
+            }
+            unit={userStyle().autoScrollUnit}
+            onSpeedChange={(speed) =>
+              updateUserStyle(
+                userStyle().autoScrollUnit === "words"
+                  ? "autoScrollWpm"
+                  : "autoScrollSpeed",
+                [speed]
+              )
+            }
+            onUnitChange={(unit) => updateUserStyle("autoScrollUnit", unit)}
+            getWordDensity={measureWordDensity}
+            canLoadMore={() =>
+              !lastChapter() && !blocked() && loadError()?.placement !== "after"
+            }
+            hoverTarget={() => mainElement}
+            hoverPause={userStyle().autoScrollHoverPause}
+          />
+          <ReadAloudControls
+            rate={userStyle().ttsRate[0]}
+            pitch={userStyle().ttsPitch[0]}
+            getStartPosition={readAloudStartPosition}
+            getParagraphs={(el) => Array.from(getParagraphElements(el))}
+            getNextChapter={getFollowingChapterElement}
+          />
+        </footer>
+      </Show>
     </div>
   );
 };
@@ -340,12 +1279,38 @@ const ChapterReader = (props: ReaderProps) => {
 const ReaderHeader = (props: {
   title: string;
   onSettingsClick: () => void;
+  onChapterListClick: () => void;
+  onNotesClick: () => void;
+  onSearchClick: () => void;
+  onExportClick: () => void;
 }) => (
-  <header class="sticky top-0 z-10 border-b p-4 backdrop-blur-sm bg-opacity-80 flex justify-between items-center gap-2">
-    <Button size="icon" aria-label="Settings" onclick={props.onSettingsClick}>
-      <IoCog />
-      <span class="sr-only">Settings</span>
-    </Button>
+  <header class="reader-header sticky top-0 z-10 border-b p-4 backdrop-blur-sm flex justify-between items-center gap-2">
+    <div class="flex gap-2">
+      <Button size="icon" aria-label="Settings" onclick={props.onSettingsClick}>
+        <IoCog />
+        <span class="sr-only">Settings</span>
+      </Button>
+      <Button
+        size="icon"
+        aria-label="Chapters"
+        onclick={props.onChapterListClick}
+      >
+        <IoList />
+        <span class="sr-only">Chapters</span>
+      </Button>
+      <Button size="icon" aria-label="Notes" onclick={props.onNotesClick}>
+        <IoBookmarks />
+        <span class="sr-only">Notes</span>
+      </Button>
+      <Button size="icon" aria-label="Search" onclick={props.onSearchClick}>
+        <IoSearch />
+        <span class="sr-only">Search</span>
+      </Button>
+      <Button size="icon" aria-label="Export" onclick={props.onExportClick}>
+        <IoDownload />
+        <span class="sr-only">Export</span>
+      </Button>
+    </div>
 
     <div>
       <h1>{props.title}</h1>
@@ -354,10 +1319,7 @@ const ReaderHeader = (props: {
       <Button
         size="icon"
         aria-label="Close"
-        onclick={() => {
-          localStorage.setItem("chapterReaderEnabled", "false");
-          location.reload();
-        }}
+        onclick={closeReader}
       >
         <IoClose />
         <span class="sr-only">Close</span>
@@ -366,126 +1328,299 @@ const ReaderHeader = (props: {
   </header>
 );
 
+// Resume Prompt Component
+const ResumePrompt = (props: {
+  position: ReadingPosition;
+  onResume: () => void;
+  onDismiss: () => void;
+}) => (
+  <div class="m-2 flex items-center justify-between gap-2 rounded border bg-background p-3 shadow-sm">
+    <span>
+      متابعة القراءة من {props.position.chapterTitle}، الفقرة{" "}
+      {props.position.paragraph + 1}
+    </span>
+    <div class="flex gap-2">
+      <Button size="sm" onclick={props.onResume}>
+        متابعة
+      </Button>
+      <Button size="sm" variant="ghost" onclick={props.onDismiss}>
+        تجاهل
+      </Button>
+    </div>
+  </div>
+);
+
 // Settings Dialog Component
 const SettingsDialog = (props: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userStyle: UserStyle;
+  suggestedOverrides: (
+    layer: Exclude<StyleLayer, "global">
+  ) => OverridableSetting[];
   onStyleChange: <K extends keyof UserStyle>(
     key: K,
     value: UserStyle[K]
   ) => void;
+  styleSource: (key: keyof UserStyle) => StyleLayer;
+  novelOverride: StyleOverride;
+  deviceOverride: StyleOverride;
+  onSaveOverride: (
+    layer: Exclude<StyleLayer, "global">,
+    keys: OverridableSetting[]
+  ) => void;
+  onClearOverride: (layer: Exclude<StyleLayer, "global">) => void;
+  onReset: () => void;
+  uploadedFonts: FontOption[];
+  onUploadedFontsChange: () => void;
+  novelUrl: string;
+  replacementRules: ReplacementRule[];
+  onReplacementRulesChange: (rules: ReplacementRule[]) => void;
+  previewContent: string;
 }) => (
   <Dialog open={props.open} onOpenChange={props.onOpenChange}>
     <DialogContent>
       <DialogHeader>
         <DialogTitle>اعدادات المستخدم</DialogTitle>
         <div class="flex items-center gap-4 flex-col sm:fex-row my-4">
+          {/* Novel and Device Overrides */}
+          <StyleLayerSettings
+            suggested={props.suggestedOverrides}
+            novelOverride={props.novelOverride}
+            deviceOverride={props.deviceOverride}
+            onSave={props.onSaveOverride}
+            onClear={props.onClearOverride}
+          />
+
           {/* Font Size Setting */}
           <SettingSlider
             label="حجم الخط"
             value={props.userStyle.fontSize}
             suffix="px"
-            min={12}
-            max={50}
+            source={props.styleSource("fontSize")}
+            {...SLIDER_RANGES.fontSize}
             onChange={(value) => props.onStyleChange("fontSize", value)}
           />
 
           {/* Font Family Setting */}
-          <div class="flex flex-col gap-1 w-full">
-            <span>
-              <span>الخط </span>
-              <span class="text-xs text-gray-500">
-                {props.userStyle.fontFamily}
-              </span>
-            </span>
-            <DropdownMenu>
-              <DropdownMenuTrigger as={Button<"button">}>
-                {props.userStyle.fontFamily}
-              </DropdownMenuTrigger>
-              <DropdownMenuContent>
-                <DropdownMenuGroup>
-                  <DropdownMenuGroupLabel>الخط</DropdownMenuGroupLabel>
-                  <DropdownMenuRadioGroup
-                    value={props.userStyle.fontFamily}
-                    onChange={(value) =>
-                      props.onStyleChange("fontFamily", value)
-                    }
-                  >
-                    <DropdownMenuRadioItem value="serif">
-                      سيريف
-                    </DropdownMenuRadioItem>
-                    <DropdownMenuRadioItem value="sans">
-                      سانس
-                    </DropdownMenuRadioItem>
-                    <DropdownMenuRadioItem value="mono">
-                      مونو
-                    </DropdownMenuRadioItem>
-                  </DropdownMenuRadioGroup>
-                </DropdownMenuGroup>
-              </DropdownMenuContent>
-            </DropdownMenu>
-          </div>
+          <FontSettings
+            value={props.userStyle.fontFamily}
+            uploadedFonts={props.uploadedFonts}
+            onChange={(id) => props.onStyleChange("fontFamily", id)}
+            onUploadedFontsChange={props.onUploadedFontsChange}
+            source={props.styleSource("fontFamily")}
+          />
 
           {/* Line Height Setting */}
           <SettingSlider
             label="ارتفاع السطر"
             value={props.userStyle.lineHeight}
-            min={1}
-            max={5}
-            step={0.1}
+            source={props.styleSource("lineHeight")}
+            {...SLIDER_RANGES.lineHeight}
             onChange={(value) => props.onStyleChange("lineHeight", value)}
           />
 
-          {/* Background Color Setting */}
+          {/* Text Layout Settings */}
+          <SettingSlider
+            label="عرض النص"
+            value={props.userStyle.textWidth}
+            suffix="ch"
+            source={props.styleSource("textWidth")}
+            {...SLIDER_RANGES.textWidth}
+            onChange={(value) => props.onStyleChange("textWidth", value)}
+          />
+          <SettingSlider
+            label="الهامش الجانبي"
+            value={props.userStyle.sidePadding}
+            suffix="px"
+            source={props.styleSource("sidePadding")}
+            {...SLIDER_RANGES.sidePadding}
+            onChange={(value) => props.onStyleChange("sidePadding", value)}
+          />
           <div class="flex flex-col gap-1 w-full">
-            <span>الخلفية</span>
-            <DropdownMenu>
-              <DropdownMenuTrigger as={Button<"button">}>
-                {props.userStyle.backgroundColor}
-              </DropdownMenuTrigger>
-              <DropdownMenuContent>
-                <DropdownMenuGroup>
-                  <DropdownMenuGroupLabel>الخلفية</DropdownMenuGroupLabel>
-                  <DropdownMenuRadioGroup
-                    value={props.userStyle.backgroundColor}
-                    onChange={(value) =>
-                      props.onStyleChange(
-                        "backgroundColor",
-                        value as keyof typeof BACKGROUND_COLORS
-                      )
-                    }
-                  >
-                    <DropdownMenuRadioItem value="white">
-                      ابيض
-                    </DropdownMenuRadioItem>
-                    <DropdownMenuRadioItem value="sepia">
-                      البنية
-                    </DropdownMenuRadioItem>
-                    <DropdownMenuRadioItem value="dark">
-                      المظلم
-                    </DropdownMenuRadioItem>
-                  </DropdownMenuRadioGroup>
-                </DropdownMenuGroup>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            <span class="flex items-center gap-2">
+              <span>محاذاة النص</span>
+              <LayerBadge source={props.styleSource("textAlign")} />
+            </span>
+            <div>
+              <Toggle
+                pressed={props.userStyle.textAlign === "justify"}
+                onChange={(pressed) =>
+                  props.onStyleChange(
+                    "textAlign",
+                    pressed ? "justify" : "right"
+                  )
+                }
+                variant="outline"
+              >
+                {props.userStyle.textAlign === "justify" ? "ضبط" : "يمين"}
+              </Toggle>
+            </div>
           </div>
+          <SettingSlider
+            label="المسافة بين الفقرات"
+            value={props.userStyle.paragraphSpacing}
+            suffix="em"
+            source={props.styleSource("paragraphSpacing")}
+            {...SLIDER_RANGES.paragraphSpacing}
+            onChange={(value) =>
+              props.onStyleChange("paragraphSpacing", value)
+            }
+          />
+          <SettingSlider
+            label="إزاحة السطر الأول"
+            value={props.userStyle.textIndent}
+            suffix="em"
+            source={props.styleSource("textIndent")}
+            {...SLIDER_RANGES.textIndent}
+            onChange={(value) => props.onStyleChange("textIndent", value)}
+          />
+          <SettingSlider
+            label="تباعد الأحرف"
+            value={props.userStyle.letterSpacing}
+            suffix="em"
+            source={props.styleSource("letterSpacing")}
+            {...SLIDER_RANGES.letterSpacing}
+            onChange={(value) => props.onStyleChange("letterSpacing", value)}
+          />
+          <SettingSlider
+            label="تباعد الكلمات"
+            value={props.userStyle.wordSpacing}
+            suffix="em"
+            source={props.styleSource("wordSpacing")}
+            {...SLIDER_RANGES.wordSpacing}
+            onChange={(value) => props.onStyleChange("wordSpacing", value)}
+          />
+
+          {/* Colour Theme Setting */}
+          <ThemeSettings
+            selected={props.userStyle.backgroundColor}
+            customThemes={props.userStyle.customThemes}
+            onSelect={(theme) =>
+              props.onStyleChange("backgroundColor", theme.id)
+            }
+            onCustomThemesChange={(themes) =>
+              props.onStyleChange("customThemes", themes)
+            }
+            source={props.styleSource("backgroundColor")}
+          />
+
+          {/* Layout Mode Setting */}
           <div class="flex flex-col gap-1 w-full">
-            <span>الثيم</span>
+            <span class="flex items-center gap-2">
+              <span>طريقة العرض</span>
+              <LayerBadge source={props.styleSource("layoutMode")} />
+            </span>
             <div>
               <Toggle
-                onclick={() =>
+                pressed={props.userStyle.layoutMode === "paginated"}
+                onChange={(pressed) =>
                   props.onStyleChange(
-                    "theme",
-                    props.userStyle.theme === "dark" ? "light" : "dark"
+                    "layoutMode",
+                    pressed ? "paginated" : "scroll"
                   )
                 }
                 variant="outline"
               >
-                {props.userStyle.theme === "dark" ? <IoMoon /> : <IoSunny />}
+                {props.userStyle.layoutMode === "paginated"
+                  ? "صفحات"
+                  : "تمرير مستمر"}
+              </Toggle>
+            </div>
+          </div>
+
+          {/* Prefetch Settings */}
+          <SettingSlider
+            label="الفصول المحملة مسبقا"
+            value={props.userStyle.prefetchCount}
+            {...SLIDER_RANGES.prefetchCount}
+            onChange={(value) => props.onStyleChange("prefetchCount", value)}
+          />
+          <div class="flex flex-col gap-1 w-full">
+            <span>التحميل المسبق على بيانات الجوال</span>
+            <div>
+              <Toggle
+                pressed={props.userStyle.prefetchOnMetered}
+                onChange={(pressed) =>
+                  props.onStyleChange("prefetchOnMetered", pressed)
+                }
+                variant="outline"
+              >
+                {props.userStyle.prefetchOnMetered ? "مفعل" : "معطل"}
+              </Toggle>
+            </div>
+          </div>
+
+          {/* Auto Scroll Settings */}
+          <div class="flex flex-col gap-1 w-full">
+            <span>إيقاف التمرير التلقائي عند مرور المؤشر فوق النص</span>
+            <div>
+              <Toggle
+                pressed={props.userStyle.autoScrollHoverPause}
+                onChange={(pressed) =>
+                  props.onStyleChange("autoScrollHoverPause", pressed)
+                }
+                variant="outline"
+              >
+                {props.userStyle.autoScrollHoverPause ? "مفعل" : "معطل"}
+              </Toggle>
+            </div>
+          </div>
+
+          {/* Read Aloud Settings */}
+          <SettingSlider
+            label="سرعة القراءة الصوتية"
+            value={props.userStyle.ttsRate}
+            {...SLIDER_RANGES.ttsRate}
+            onChange={(value) => props.onStyleChange("ttsRate", value)}
+          />
+          <SettingSlider
+            label="طبقة الصوت"
+            value={props.userStyle.ttsPitch}
+            {...SLIDER_RANGES.ttsPitch}
+            onChange={(value) => props.onStyleChange("ttsPitch", value)}
+          />
+
+          {/* Keyboard Shortcuts */}
+          <ShortcutSettings
+            shortcuts={{ ...DEFAULT_SHORTCUTS, ...props.userStyle.shortcuts }}
+            onChange={(shortcuts) => props.onStyleChange("shortcuts", shortcuts)}
+            onReset={() => props.onStyleChange("shortcuts", {})}
+          />
+
+          {/* Debug Setting */}
+          <div class="flex flex-col gap-1 w-full">
+            <span>وضع التصحيح</span>
+            <div>
+              <Toggle
+                pressed={props.userStyle.debug}
+                onChange={(pressed) => props.onStyleChange("debug", pressed)}
+                variant="outline"
+              >
+                {props.userStyle.debug ? "مفعل" : "معطل"}
               </Toggle>
             </div>
           </div>
+
+          {/* Text Replacement Rules */}
+          <ReplacementRules
+            rules={props.replacementRules}
+            novelUrl={props.novelUrl}
+            previewContent={props.previewContent}
+            onChange={props.onReplacementRulesChange}
+          />
+
+          {/* Offline Cache */}
+          <CacheSettings />
+
+          {/* Backup and Storage */}
+          <DataSettings />
+
+          <div class="w-full">
+            <Button variant="outline" onclick={props.onReset}>
+              استعادة الاعدادات الافتراضية
+            </Button>
+          </div>
         </div>
       </DialogHeader>
     </DialogContent>
@@ -500,15 +1635,19 @@ const SettingSlider = (props: {
   max: number;
   step?: number;
   suffix?: string;
+  source?: StyleLayer;
   onChange: (value: number[]) => void;
 }) => (
   <div class="flex flex-col gap-1 w-full">
-    <span>
+    <span class="flex items-center gap-1">
       <span>{props.label} </span>
       <span class="text-xs text-gray-500">
         {props.value[0]}
         {props.suffix ?? ""}
       </span>
+      <Show when={props.source}>
+        {(source) => <LayerBadge source={source()} />}
+      </Show>
     </span>
     <Slider
       value={props.value}
@@ -525,30 +1664,99 @@ const SettingSlider = (props: {
   </div>
 );
 
+const LOAD_ERROR_MESSAGES: Record<ChapterFetchError["kind"], string> = {
+  "not-found": "الفصل غير موجود",
+  forbidden: "تم رفض الوصول إلى الفصل",
+  challenge: "يطلب الموقع التحقق من المتصفح",
+  server: "خطأ في الخادم",
+  http: "تعذر تحميل الفصل",
+  network: "تعذر الاتصال بالشبكة",
+  parse: "تعذر قراءة محتوى الفصل",
+  aborted: "تم إلغاء التحميل",
+};
+
+// Load Error Card Component
+const LoadErrorCard = (props: { loadError: LoadError; onRetry: () => void }) => (
+  <Card class="rounded-none sm:rounded sm:m-2">
+    <CardHeader>
+      <span>{props.loadError.chapter.text}</span>
+      <span class="text-sm text-gray-500">
+        {LOAD_ERROR_MESSAGES[props.loadError.error.kind]}
+        {props.loadError.error.status
+          ? ` (${props.loadError.error.status})`
+          : ""}
+      </span>
+    </CardHeader>
+    <CardFooter>
+      <Button onclick={props.onRetry}>إعادة المحاولة</Button>
+    </CardFooter>
+  </Card>
+);
+
+// Chapter Debug Component
+// How a chapter was parsed, and what was stripped from it before rendering
+const ChapterDebugView = (props: { chapter: ChapterData }) => {
+  const report = () => props.chapter.sanitizeReport ?? {};
+  const diagnostics = () => props.chapter.diagnostics;
+
+  return (
+    <details class="mx-6 mb-4 rounded border p-2 text-xs ltr">
+      <summary class="cursor-pointer">
+        Debug: {diagnostics()?.problems.length ?? 0} problems,{" "}
+        {Object.keys(report()).length} kinds removed
+      </summary>
+      <Show when={diagnostics()}>
+        {(diagnostics) => (
+          <ul class="mt-2 font-mono">
+            <li>id: {diagnostics().idSelector ?? "-"}</li>
+            <li>title: {diagnostics().titleSelector ?? "-"}</li>
+            <li>content: {diagnostics().contentSelector ?? "-"}</li>
+            <li>problems: {diagnostics().problems.join(", ") || "-"}</li>
+          </ul>
+        )}
+      </Show>
+      <ul class="mt-2 font-mono">
+        <For each={Object.entries(report())}>
+          {([name, count]) => (
+            <li>
+              {name} × {count}
+            </li>
+          )}
+        </For>
+      </ul>
+    </details>
+  );
+};
+
 // Chapter Card Component
 const ChapterCard = (props: {
   chapter: ChapterData;
+  content: string; // After replacement rules
   backgroundColor: string;
-  ref?: HTMLDivElement;
   theme: string;
+  debug: boolean;
 }) => (
   <Card
     id={`chapter-${props.chapter.id}`}
     data-url={props.chapter.uri}
     class={`${props.backgroundColor} rounded-none sm:rounded sm:m-2 chapter-container`}
   >
-    <CardHeader class="border-b hover:bg-accent">
+    <CardHeader class="reader-header border-b">
       <a href={props.chapter.uri}>{props.chapter.title}</a>
     </CardHeader>
     <CardContent
-      innerHTML={props.chapter.content}
-      class="flex flex-col"
+      innerHTML={props.content}
+      class="flex flex-col mx-auto chapter-content"
       style={{
         "line-height": "var(--line-height)",
         "font-size": "var(--fontSize)",
+        "max-width": "var(--text-width)",
+        "padding-inline": "var(--side-padding)",
       }}
-      ref={props.ref}
     />
+    <Show when={props.debug}>
+      <ChapterDebugView chapter={props.chapter} />
+    </Show>
     <CardFooter>
       <Button variant="link">
         <a href={props.chapter.uri}>
@@ -0,0 +1,10 @@
+// Stands in for vite-plugin-monkey's `$` module, which only exists inside the
+// userscript manager. Values live in memory for the length of a test run.
+const values = new Map<string, unknown>();
+
+export const GM_getValue = <T>(key: string, defaultValue?: T): T =>
+  (values.has(key) ? values.get(key) : defaultValue) as T;
+
+export const GM_setValue = (key: string, value: unknown): void => {
+  values.set(key, value);
+};
@@ -0,0 +1,312 @@
+import { IoCreate, IoTrash } from "solid-icons/io";
+import {
+  createEffect,
+  createSignal,
+  For,
+  on,
+  onCleanup,
+  onMount,
+  Show,
+} from "solid-js";
+import {
+  ANNOTATION_COLORS,
+  type Annotation,
+  type AnnotationColor,
+  anchorRange,
+  annotationAtPoint,
+  clearAnnotationPaint,
+  paintAnnotations,
+} from "~/lib/annotations";
+import { debounce } from "~/lib/utils";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+// What the toolbar acts on: fresh selected text, or an existing highlight
+type ToolbarTarget =
+  | { kind: "selection"; range: Range; content: Element }
+  | { kind: "annotation"; range: Range; annotation: Annotation };
+
+// Wait for selection handles to settle before offering to highlight
+const SELECTION_DEBOUNCE_MS = 300;
+const TOOLBAR_HEIGHT_PX = 48;
+
+// Colour swatches and note/delete buttons floating above the text
+const AnnotationToolbar = (props: {
+  rect: DOMRect;
+  color?: AnnotationColor;
+  onColor: (color: AnnotationColor) => void;
+  onNote: () => void;
+  onDelete?: () => void;
+}) => (
+  <div
+    class="fixed z-20 flex -translate-x-1/2 items-center gap-1 rounded-full border bg-background p-1 shadow-md"
+    style={{
+      top: `${Math.max(8, props.rect.top - TOOLBAR_HEIGHT_PX)}px`,
+      left: `${props.rect.left + props.rect.width / 2}px`,
+    }}
+    // Keep the selection alive while a button is pressed
+    onMouseDown={(e) => e.preventDefault()}
+  >
+    <For each={ANNOTATION_COLORS}>
+      {(color) => (
+        <button
+          type="button"
+          title={color.name}
+          class={`size-6 rounded-full border ${
+            props.color === color.id ? "ring-2 ring-ring" : ""
+          }`}
+          style={{ background: color.swatch }}
+          onclick={() => props.onColor(color.id)}
+        />
+      )}
+    </For>
+    <Button
+      size="icon"
+      variant="ghost"
+      title="ملاحظة"
+      onclick={props.onNote}
+    >
+      <IoCreate />
+    </Button>
+    <Show when={props.onDelete}>
+      {(onDelete) => (
+        <Button size="icon" variant="ghost" title="حذف" onclick={onDelete()}>
+          <IoTrash />
+        </Button>
+      )}
+    </Show>
+  </div>
+);
+
+// Note Dialog Component
+const NoteDialog = (props: {
+  annotation: Annotation | null;
+  onSave: (note: string) => void;
+  onClose: () => void;
+}) => {
+  const [note, setNote] = createSignal("");
+  createEffect(() => setNote(props.annotation?.note ?? ""));
+
+  return (
+    <Dialog
+      open={props.annotation !== null}
+      onOpenChange={(open) => !open && props.onClose()}
+    >
+      <DialogContent class="rtl">
+        <DialogHeader>
+          <DialogTitle>ملاحظة</DialogTitle>
+        </DialogHeader>
+        <blockquote class="border-s-4 ps-3 text-sm text-muted-foreground">
+          {props.annotation?.quote}
+        </blockquote>
+        <textarea
+          value={note()}
+          onInput={(e) => setNote(e.currentTarget.value)}
+          rows={5}
+          class="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <div class="flex gap-2">
+          <Button size="sm" onclick={() => props.onSave(note())}>
+            حفظ
+          </Button>
+          <Button size="sm" variant="outline" onclick={props.onClose}>
+            إلغاء
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Highlights the reader's annotations in the rendered chapters and lets
+// them highlight selected text or edit what they highlighted before
+const AnnotationLayer = (props: {
+  /** Element holding the rendered chapters. */
+  container: () => HTMLElement | undefined;
+  annotations: Annotation[];
+  /** The chapter a rendered `.chapter-content` element belongs to. */
+  chapterOf: (content: Element) => { url: string; title: string } | null;
+  onChange: (annotations: Annotation[]) => void;
+}) => {
+  const [target, setTarget] = createSignal<ToolbarTarget | null>(null);
+  const [rect, setRect] = createSignal<DOMRect | null>(null);
+  const [editing, setEditing] = createSignal<Annotation | null>(null);
+  let ranges = new Map<string, Range>();
+  let paintFrame = 0;
+
+  // Chapter contents are only parsed into the DOM after they render, so
+  // painting waits for the next frame
+  const schedulePaint = () => {
+    cancelAnimationFrame(paintFrame);
+    paintFrame = requestAnimationFrame(() => {
+      const container = props.container();
+      if (!container) return;
+      const targets = Array.from(
+        container.querySelectorAll(".chapter-content"),
+        (content) => {
+          const url = props.chapterOf(content)?.url;
+          return {
+            content,
+            annotations: props.annotations.filter((a) => a.chapterUrl === url),
+          };
+        }
+      );
+      ranges = paintAnnotations(targets);
+    });
+  };
+
+  const show = (next: ToolbarTarget | null) => {
+    setTarget(next);
+    setRect(next?.range.getBoundingClientRect() ?? null);
+  };
+
+  const handleSelectionChange = debounce(() => {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+      if (target()?.kind === "selection") show(null);
+      return;
+    }
+    const range = selection.getRangeAt(0);
+    const start =
+      range.startContainer instanceof Element
+        ? range.startContainer
+        : range.startContainer.parentElement;
+    const content = start?.closest(".chapter-content");
+    if (!content || !props.container()?.contains(content)) return;
+    show({ kind: "selection", range, content });
+  }, SELECTION_DEBOUNCE_MS);
+
+  const handleClick = (event: MouseEvent) => {
+    if (!window.getSelection()?.isCollapsed) return;
+    const id = annotationAtPoint(ranges, event.clientX, event.clientY);
+    const annotation = props.annotations.find((a) => a.id === id);
+    const range = id ? ranges.get(id) : undefined;
+    if (annotation && range) {
+      show({ kind: "annotation", range, annotation });
+    } else if (target()?.kind === "annotation") {
+      show(null);
+    }
+  };
+
+  // The toolbar is fixed, so it follows its text around by hand
+  const handleScroll = () => {
+    const current = target();
+    if (current) setRect(current.range.getBoundingClientRect());
+  };
+
+  const create = (color: AnnotationColor): Annotation | null => {
+    const current = target();
+    if (current?.kind !== "selection") return null;
+    const anchor = anchorRange(current.content, current.range);
+    const chapter = props.chapterOf(current.content);
+    if (!anchor || !chapter) return null;
+
+    const annotation: Annotation = {
+      id: `annotation-${Date.now()}`,
+      chapterUrl: chapter.url,
+      chapterTitle: chapter.title,
+      ...anchor,
+      color,
+      note: "",
+      createdAt: Date.now(),
+    };
+    props.onChange([...props.annotations, annotation]);
+    window.getSelection()?.removeAllRanges();
+    show(null);
+    return annotation;
+  };
+
+  const update = (id: string, changes: Partial<Annotation>) =>
+    props.onChange(
+      props.annotations.map((a) => (a.id === id ? { ...a, ...changes } : a))
+    );
+
+  const changeColor = (color: AnnotationColor) => {
+    const current = target();
+    if (current?.kind === "selection") {
+      create(color);
+    } else if (current) {
+      update(current.annotation.id, { color });
+      show({ ...current, annotation: { ...current.annotation, color } });
+    }
+  };
+
+  const openNote = () => {
+    const current = target();
+    const annotation =
+      current?.kind === "selection"
+        ? create(ANNOTATION_COLORS[0].id)
+        : current?.annotation;
+    show(null);
+    if (annotation) setEditing(annotation);
+  };
+
+  const remove = () => {
+    const current = target();
+    if (current?.kind !== "annotation") return;
+    props.onChange(
+      props.annotations.filter((a) => a.id !== current.annotation.id)
+    );
+    show(null);
+  };
+
+  const editedColor = () => {
+    const current = target();
+    return current?.kind === "annotation"
+      ? current.annotation.color
+      : undefined;
+  };
+
+  createEffect(on(() => props.annotations, schedulePaint));
+
+  onMount(() => {
+    const container = props.container();
+    const observer = new MutationObserver(schedulePaint);
+    if (container) {
+      observer.observe(container, { childList: true, subtree: true });
+      container.addEventListener("click", handleClick);
+    }
+    document.addEventListener("selectionchange", handleSelectionChange);
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    onCleanup(() => {
+      observer.disconnect();
+      container?.removeEventListener("click", handleClick);
+      document.removeEventListener("selectionchange", handleSelectionChange);
+      window.removeEventListener("scroll", handleScroll);
+      cancelAnimationFrame(paintFrame);
+      clearAnnotationPaint();
+    });
+  });
+
+  return (
+    <>
+      <Show when={target() && rect()}>
+        {(rect) => (
+          <AnnotationToolbar
+            rect={rect()}
+            color={editedColor()}
+            onColor={changeColor}
+            onNote={openNote}
+            onDelete={target()?.kind === "annotation" ? remove : undefined}
+          />
+        )}
+      </Show>
+      <NoteDialog
+        annotation={editing()}
+        onSave={(note) => {
+          const annotation = editing();
+          if (annotation) update(annotation.id, { note });
+          setEditing(null);
+        }}
+        onClose={() => setEditing(null)}
+      />
+    </>
+  );
+};
+
+export default AnnotationLayer;
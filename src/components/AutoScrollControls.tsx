@@ -0,0 +1,113 @@
+import { IoAdd, IoPause, IoRemove, IoStop } from "solid-icons/io";
+import { createSignal, onCleanup, Show } from "solid-js";
+import {
+  type AutoScrollState,
+  AutoScroller,
+  type AutoScrollUnit,
+} from "~/lib/autoScroll";
+import { clampToRange, SLIDER_RANGES } from "~/lib/settings";
+import { Button } from "./ui/button";
+
+// Speed range and label for each unit: pixels per second or words per minute
+const SPEED_LIMITS = {
+  pixels: { ...SLIDER_RANGES.autoScrollSpeed, label: "بكسل/ث" },
+  words: { ...SLIDER_RANGES.autoScrollWpm, label: "كلمة/د" },
+};
+
+// Auto Scroll Controls Component
+const AutoScrollControls = (props: {
+  speed: number;
+  unit: AutoScrollUnit;
+  onSpeedChange: (speed: number) => void;
+  onUnitChange: (unit: AutoScrollUnit) => void;
+  /** Words per pixel of page height in the text being read. */
+  getWordDensity: () => number;
+  canLoadMore: () => boolean;
+  /** Element that holds scrolling while hovered, when hover-pause is on. */
+  hoverTarget: () => HTMLElement | undefined;
+  hoverPause: boolean;
+}) => {
+  const [state, setState] = createSignal<AutoScrollState>("idle");
+  let scroller: AutoScroller | null = null;
+
+  const pixelsPerSecond = () => {
+    if (props.unit === "pixels") return props.speed;
+    const density = props.getWordDensity();
+    return density > 0 ? props.speed / 60 / density : 0;
+  };
+
+  // A fresh scroller per run picks up a changed hover-pause setting
+  const toggle = () => {
+    if (!scroller || state() === "idle") {
+      scroller = new AutoScroller(
+        {
+          onStateChange: setState,
+          getSpeed: pixelsPerSecond,
+          canLoadMore: props.canLoadMore,
+        },
+        props.hoverPause ? props.hoverTarget() ?? null : null
+      );
+    }
+    scroller.toggle();
+  };
+
+  const changeSpeed = (direction: 1 | -1) => {
+    const range = SPEED_LIMITS[props.unit];
+    props.onSpeedChange(
+      clampToRange(props.speed + direction * range.step, range)
+    );
+  };
+
+  onCleanup(() => scroller?.stop());
+
+  return (
+    <div class="flex items-center gap-2">
+      <Button
+        size="sm"
+        variant={state() === "idle" ? "outline" : "default"}
+        onclick={toggle}
+      >
+        <Show when={state() === "running"} fallback="تمرير تلقائي">
+          <IoPause />
+        </Show>
+      </Button>
+      <Show when={state() !== "idle"}>
+        <Button
+          size="icon"
+          variant="ghost"
+          onclick={() => scroller?.stop()}
+          title="إيقاف"
+        >
+          <IoStop />
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          onclick={() => changeSpeed(-1)}
+          title="أبطأ"
+        >
+          <IoRemove />
+        </Button>
+        <button
+          class="text-sm tabular-nums"
+          title="تغيير الوحدة"
+          onclick={() =>
+            props.onUnitChange(props.unit === "pixels" ? "words" : "pixels")
+          }
+        >
+          {props.speed} {SPEED_LIMITS[props.unit].label}
+        </button>
+        <Button
+          size="icon"
+          variant="ghost"
+          onclick={() => changeSpeed(1)}
+          title="أسرع"
+        >
+          <IoAdd />
+        </Button>
+      </Show>
+    </div>
+  );
+};
+
+export default AutoScrollControls;
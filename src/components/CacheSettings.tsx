@@ -0,0 +1,80 @@
+import { IoTrash } from "solid-icons/io";
+import { createResource, For, Show } from "solid-js";
+import {
+  clearCachedNovel,
+  clearChapterCache,
+  listCachedNovels,
+} from "~/lib/chapterCache";
+import { Button } from "./ui/button";
+
+// Human readable size for the cache listing
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.ceil(bytes / 1024)} KB`;
+
+// Novel slug taken from its URL, e.g. ".../novel/some-novel/" -> "some-novel"
+const novelName = (novelUrl: string) => {
+  try {
+    const segments = new URL(novelUrl).pathname.split("/").filter(Boolean);
+    return decodeURIComponent(segments[segments.length - 1] ?? novelUrl);
+  } catch {
+    return novelUrl;
+  }
+};
+
+// Cache Settings Component
+const CacheSettings = () => {
+  const [novels, { refetch }] = createResource(listCachedNovels);
+
+  const clearNovel = async (novelUrl: string) => {
+    await clearCachedNovel(novelUrl);
+    refetch();
+  };
+
+  const clearAll = async () => {
+    await clearChapterCache();
+    refetch();
+  };
+
+  return (
+    <div class="flex flex-col gap-2 w-full">
+      <span>الفصول المحفوظة</span>
+      <Show
+        when={novels()?.length}
+        fallback={
+          <span class="text-xs text-gray-500">لا توجد فصول محفوظة</span>
+        }
+      >
+        <ul class="flex flex-col gap-1">
+          <For each={novels()}>
+            {(novel) => (
+              <li class="flex items-center justify-between gap-2 text-sm">
+                <span class="truncate">
+                  <span>{novelName(novel.novelUrl)} </span>
+                  <span class="text-xs text-gray-500">
+                    {novel.chapterCount} فصل، {formatSize(novel.size)}
+                  </span>
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label="Clear"
+                  onclick={() => clearNovel(novel.novelUrl)}
+                >
+                  <IoTrash />
+                  <span class="sr-only">Clear</span>
+                </Button>
+              </li>
+            )}
+          </For>
+        </ul>
+        <Button variant="outline" onclick={clearAll}>
+          حذف جميع الفصول المحفوظة
+        </Button>
+      </Show>
+    </div>
+  );
+};
+
+export default CacheSettings;
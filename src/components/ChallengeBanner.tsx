@@ -0,0 +1,88 @@
+import { createSignal, onCleanup, onMount, Show } from "solid-js";
+import { isChallengePage } from "~/lib/fetch";
+import type { Chapter } from "~/types";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+// Challenge Banner Component
+// Shown while chapter loading is paused because the site asked for a bot
+// check. The user passes it in a tab or an iframe, then loading resumes.
+const ChallengeBanner = (props: {
+  chapter: Chapter;
+  onResume: () => void;
+}) => {
+  const [showFrame, setShowFrame] = createSignal(false);
+  let openedTab = false;
+
+  const openInNewTab = () => {
+    openedTab = true;
+    window.open(props.chapter.value, "_blank");
+  };
+
+  // Coming back from the tab is the best hint we get that the check passed
+  const handleFocus = () => {
+    if (openedTab) props.onResume();
+  };
+
+  // The iframe is same-origin, so we can see whether it still shows the
+  // challenge or the chapter behind it
+  const handleFrameLoad = (frame: HTMLIFrameElement) => {
+    try {
+      const html = frame.contentDocument?.documentElement.outerHTML;
+      if (html && !isChallengePage(html)) {
+        setShowFrame(false);
+        props.onResume();
+      }
+    } catch (e) {
+      console.warn("Could not inspect challenge frame:", e);
+    }
+  };
+
+  onMount(() => {
+    window.addEventListener("focus", handleFocus);
+    onCleanup(() => window.removeEventListener("focus", handleFocus));
+  });
+
+  return (
+    <div class="sticky top-[73px] z-10 m-2 flex flex-col gap-2 rounded border bg-background p-3 shadow-sm sm:flex-row sm:items-center sm:justify-between">
+      <span>
+        توقف تحميل الفصول: يطلب الموقع التحقق من انك لست روبوت (
+        {props.chapter.text})
+      </span>
+      <div class="flex gap-2">
+        <Button size="sm" onclick={openInNewTab}>
+          فتح في لسان جديد
+        </Button>
+        <Button size="sm" variant="outline" onclick={() => setShowFrame(true)}>
+          التحقق هنا
+        </Button>
+        <Button size="sm" variant="ghost" onclick={props.onResume}>
+          استئناف
+        </Button>
+      </div>
+
+      <Dialog open={showFrame()} onOpenChange={setShowFrame}>
+        <DialogContent class="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>التحقق</DialogTitle>
+          </DialogHeader>
+          <Show when={showFrame()}>
+            <iframe
+              src={props.chapter.value}
+              title={props.chapter.text}
+              class="h-[70vh] w-full rounded border"
+              onLoad={(e) => handleFrameLoad(e.currentTarget)}
+            />
+          </Show>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ChallengeBanner;
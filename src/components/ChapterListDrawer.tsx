@@ -0,0 +1,93 @@
+import { IoCheckmark } from "solid-icons/io";
+import { createMemo, createSignal, For, Show } from "solid-js";
+import { cn } from "~/lib/utils";
+import type { Chapter } from "~/types";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "./ui/sheet";
+
+// Matches a chapter against the search box, by its position in the list
+// (1-based, as readers count) or by its title
+const matchesQuery = (chapter: Chapter, index: number, query: string) => {
+  if (!query) return true;
+  if (/^\d+$/.test(query) && String(index + 1) === query) return true;
+  return chapter.text.toLowerCase().includes(query.toLowerCase());
+};
+
+// Chapter List Drawer Component
+const ChapterListDrawer = (props: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  chapters: Chapter[];
+  currentIndex: number;
+  readChapters: Set<string>;
+  onSelect: (index: number) => void;
+}) => {
+  const [query, setQuery] = createSignal("");
+
+  const filteredChapters = createMemo(() =>
+    props.chapters
+      .map((chapter, index) => ({ chapter, index }))
+      .filter(({ chapter, index }) =>
+        matchesQuery(chapter, index, query().trim())
+      )
+  );
+
+  // Bring the current chapter into view when the list is first shown
+  const scrollCurrentIntoView = (el: HTMLElement, index: number) => {
+    if (index === props.currentIndex) {
+      queueMicrotask(() => el.scrollIntoView({ block: "center" }));
+    }
+  };
+
+  return (
+    <Sheet open={props.open} onOpenChange={props.onOpenChange}>
+      <SheetContent position="right" class="rtl">
+        <SheetHeader>
+          <SheetTitle>الفصول</SheetTitle>
+        </SheetHeader>
+        <input
+          type="search"
+          value={query()}
+          onInput={(e) => setQuery(e.currentTarget.value)}
+          placeholder="ابحث برقم الفصل او العنوان"
+          class="h-10 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <ul class="flex flex-col gap-1">
+          <For each={filteredChapters()}>
+            {({ chapter, index }) => (
+              <li ref={(el) => scrollCurrentIntoView(el, index)}>
+                <button
+                  type="button"
+                  onclick={() => props.onSelect(index)}
+                  aria-current={index === props.currentIndex}
+                  class={cn(
+                    "flex w-full cursor-pointer items-center justify-between gap-2 rounded px-3 py-2 text-start text-sm hover:bg-accent",
+                    index === props.currentIndex &&
+                      "bg-primary text-primary-foreground hover:bg-primary/90",
+                    index !== props.currentIndex &&
+                      props.readChapters.has(chapter.value) &&
+                      "text-muted-foreground"
+                  )}
+                >
+                  <span>{chapter.text}</span>
+                  <Show when={props.readChapters.has(chapter.value)}>
+                    <IoCheckmark aria-label="مقروء" />
+                  </Show>
+                </button>
+              </li>
+            )}
+          </For>
+        </ul>
+        <Show when={filteredChapters().length === 0}>
+          <p class="text-sm text-muted-foreground">لا توجد فصول مطابقة</p>
+        </Show>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ChapterListDrawer;
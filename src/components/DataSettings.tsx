@@ -0,0 +1,95 @@
+import { createSignal, Show } from "solid-js";
+import { downloadBlob } from "~/lib/export";
+import {
+  exportReaderData,
+  getStorageBackendName,
+  type ImportError,
+  importReaderData,
+  isUserscriptStorageAvailable,
+  switchStorageBackend,
+} from "~/lib/storage";
+import { Button } from "./ui/button";
+import { Toggle } from "./ui/toggle";
+
+const IMPORT_ERROR_MESSAGES: Record<ImportError, string> = {
+  "invalid-json": "الملف ليس بصيغة JSON",
+  "wrong-format": "الملف ليس نسخة احتياطية للقارئ",
+  storage: "تعذر حفظ البيانات المستوردة",
+};
+
+// Data Settings Component
+const DataSettings = () => {
+  const [status, setStatus] = createSignal("");
+  const [backend, setBackend] = createSignal(getStorageBackendName());
+  let fileInput!: HTMLInputElement;
+
+  const exportData = () => {
+    const data = JSON.stringify(exportReaderData(), null, 2);
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(
+      new Blob([data], { type: "application/json" }),
+      `reader-data-${date}.json`
+    );
+  };
+
+  const importData = async (file: File | undefined) => {
+    if (!file) return;
+    const { error } = importReaderData(await file.text());
+    fileInput.value = "";
+    if (error) {
+      setStatus(IMPORT_ERROR_MESSAGES[error]);
+      return;
+    }
+    // Everything reads its data once at startup, so start again
+    location.reload();
+  };
+
+  const toggleBackend = (useUserscript: boolean) => {
+    switchStorageBackend(useUserscript ? "userscript" : "local");
+    setBackend(getStorageBackendName());
+  };
+
+  return (
+    <div class="flex flex-col gap-2 w-full">
+      <span>البيانات</span>
+      <div class="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onclick={exportData}>
+          تصدير البيانات
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          class="hidden"
+          onChange={(e) => importData(e.currentTarget.files?.[0])}
+        />
+        <Button size="sm" variant="outline" onclick={() => fileInput.click()}>
+          استيراد البيانات
+        </Button>
+      </div>
+      <Show when={status()}>
+        <span class="text-xs text-destructive">{status()}</span>
+      </Show>
+
+      <Show when={isUserscriptStorageAvailable()}>
+        <div class="flex flex-col gap-1">
+          <span class="text-sm">الحفظ في مدير السكربتات</span>
+          <span class="text-xs text-gray-500">
+            تبقى الاعدادات والتقدم محفوظة عند مسح بيانات الموقع
+          </span>
+          <div>
+            <Toggle
+              pressed={backend() === "userscript"}
+              onChange={toggleBackend}
+              variant="outline"
+            >
+              {backend() === "userscript" ? "مفعل" : "معطل"}
+            </Toggle>
+          </div>
+        </div>
+      </Show>
+    </div>
+  );
+};
+
+export default DataSettings;
@@ -0,0 +1,201 @@
+import { createEffect, createSignal, For, on, Show } from "solid-js";
+import { buildEpub } from "~/lib/epub";
+import { downloadBlob, fetchChapterRange } from "~/lib/export";
+import type { ChapterFetchResult } from "~/lib/fetch";
+import { chaptersToText } from "~/lib/markdown";
+import type { Chapter, ChapterData, NovelMetadata } from "~/types";
+import { Button } from "./ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+type ExportFormat = "epub" | "markdown" | "text";
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  epub: "application/epub+zip",
+  markdown: "text/markdown",
+  text: "text/plain",
+};
+
+// Chapter picker for one end of the export range
+const ChapterSelect = (props: {
+  label: string;
+  chapters: Chapter[];
+  value: number;
+  onChange: (index: number) => void;
+}) => (
+  <label class="flex flex-col gap-1 w-full">
+    <span>{props.label}</span>
+    <select
+      onChange={(e) => props.onChange(Number(e.currentTarget.value))}
+      class="h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+    >
+      <For each={props.chapters}>
+        {(chapter, index) => (
+          <option value={index()} selected={index() === props.value}>
+            {chapter.text}
+          </option>
+        )}
+      </For>
+    </select>
+  </label>
+);
+
+// Export Dialog Component
+const ExportDialog = (props: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  chapters: Chapter[];
+  currentIndex: number;
+  loadedChapters: ChapterData[];
+  fetchChapter: (chapter: Chapter) => Promise<ChapterFetchResult>;
+  loadNovelMetadata: () => Promise<NovelMetadata>;
+}) => {
+  const [start, setStart] = createSignal(props.currentIndex);
+  const [end, setEnd] = createSignal(props.currentIndex);
+  const [busy, setBusy] = createSignal(false);
+  const [status, setStatus] = createSignal("");
+  const [source, setSource] = createSignal<"range" | "loaded">("range");
+
+  // Start from the chapter being read each time the dialog opens
+  createEffect(
+    on(
+      () => props.open,
+      (open) => {
+        if (open && !busy()) {
+          setStart(props.currentIndex);
+          setEnd(props.currentIndex);
+          setStatus("");
+        }
+      }
+    )
+  );
+
+  const selectedChapters = () =>
+    props.chapters.slice(
+      Math.min(start(), end()),
+      Math.max(start(), end()) + 1
+    );
+
+  // Chapters to export: either the chosen range or what is on screen
+  const collectChapters = async () => {
+    if (source() === "loaded") return props.loadedChapters;
+
+    const { data: chapters, error } = await fetchChapterRange(
+      selectedChapters(),
+      props.fetchChapter,
+      (done, total) => setStatus(`جاري تحميل الفصل ${done} من ${total}...`)
+    );
+    if (error) {
+      setStatus(`تعذر تحميل ${error.chapter.text}، لم يتم التصدير`);
+      return null;
+    }
+    return chapters;
+  };
+
+  const exportAs = async (format: ExportFormat) => {
+    setBusy(true);
+    try {
+      let metadata: NovelMetadata | null = null;
+      if (format === "epub") {
+        setStatus("جاري تحميل معلومات الرواية...");
+        metadata = await props.loadNovelMetadata();
+      }
+
+      const chapters = await collectChapters();
+      if (!chapters || chapters.length === 0) return;
+
+      setStatus("جاري إنشاء الملف...");
+      const first = chapters[0].title;
+      const last = chapters[chapters.length - 1].title;
+      if (metadata) {
+        const epub = await buildEpub(metadata, chapters);
+        downloadBlob(epub, `${metadata.title} - ${first} - ${last}.epub`);
+      } else {
+        const textFormat = format === "markdown" ? "markdown" : "text";
+        const text = chaptersToText(chapters, textFormat);
+        downloadBlob(
+          new Blob([text], { type: `${EXPORT_MIME_TYPES[format]};charset=utf-8` }),
+          `${first} - ${last}.${format === "markdown" ? "md" : "txt"}`
+        );
+      }
+      setStatus("تم التصدير");
+    } catch (e) {
+      console.error("Failed to export chapters:", e);
+      setStatus("حدث خطأ أثناء التصدير");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+      <DialogContent class="rtl">
+        <DialogHeader>
+          <DialogTitle>تصدير الفصول</DialogTitle>
+        </DialogHeader>
+        <div class="flex flex-col gap-4">
+          <div class="flex gap-2">
+            <Button
+              size="sm"
+              variant={source() === "range" ? "default" : "outline"}
+              onclick={() => setSource("range")}
+            >
+              نطاق من الفصول
+            </Button>
+            <Button
+              size="sm"
+              variant={source() === "loaded" ? "default" : "outline"}
+              onclick={() => setSource("loaded")}
+            >
+              الفصول المعروضة
+            </Button>
+          </div>
+          <Show
+            when={source() === "range"}
+            fallback={
+              <span class="text-xs text-gray-500">
+                {props.loadedChapters.map((chapter) => chapter.title).join("، ")}
+              </span>
+            }
+          >
+            <ChapterSelect
+              label="من"
+              chapters={props.chapters}
+              value={start()}
+              onChange={setStart}
+            />
+            <ChapterSelect
+              label="إلى"
+              chapters={props.chapters}
+              value={end()}
+              onChange={setEnd}
+            />
+            <span class="text-xs text-gray-500">
+              {selectedChapters().length} فصل
+            </span>
+          </Show>
+          <div class="flex flex-wrap gap-2">
+            <Button disabled={busy()} onclick={() => exportAs("epub")}>
+              EPUB
+            </Button>
+            <Button disabled={busy()} onclick={() => exportAs("markdown")}>
+              Markdown
+            </Button>
+            <Button disabled={busy()} onclick={() => exportAs("text")}>
+              نص
+            </Button>
+          </div>
+          <Show when={status()}>
+            <span class="text-sm">{status()}</span>
+          </Show>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,142 @@
+import { IoTrash } from "solid-icons/io";
+import { createSignal, For, onMount, Show } from "solid-js";
+import {
+  deleteUploadedFont,
+  findFont,
+  FONT_OPTIONS,
+  FONT_SAMPLE_TEXT,
+  type FontOption,
+  type FontUploadError,
+  loadWebFont,
+  saveUploadedFont,
+} from "~/lib/fonts";
+import type { StyleLayer } from "~/lib/settings";
+import { LayerBadge } from "./StyleLayerSettings";
+import { Button } from "./ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuGroupLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+const UPLOAD_ERROR_MESSAGES: Record<FontUploadError, string> = {
+  "unsupported-type": "الملف ليس بصيغة TTF أو OTF أو WOFF أو WOFF2",
+  "invalid-font": "تعذر قراءة الخط من الملف",
+  storage: "تعذر حفظ الخط",
+};
+
+// Font name written in the font itself, with an Arabic sample below it
+const FontPreview = (props: { font: FontOption }) => (
+  <span class="flex flex-col" style={{ "font-family": props.font.stack }}>
+    <span>{props.font.name}</span>
+    <span class="text-xs opacity-70">{FONT_SAMPLE_TEXT}</span>
+  </span>
+);
+
+// Font Settings Component
+const FontSettings = (props: {
+  value: string;
+  uploadedFonts: FontOption[];
+  onChange: (id: string) => void;
+  onUploadedFontsChange: () => void;
+  source?: StyleLayer;
+}) => {
+  const [uploadError, setUploadError] = createSignal("");
+  let fileInput!: HTMLInputElement;
+
+  // Samples are only useful if the curated web fonts are actually loaded
+  onMount(() => FONT_OPTIONS.forEach(loadWebFont));
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    setUploadError("");
+    const { data: font, error } = await saveUploadedFont(file);
+    fileInput.value = "";
+    if (error) {
+      setUploadError(UPLOAD_ERROR_MESSAGES[error]);
+      return;
+    }
+    props.onUploadedFontsChange();
+    props.onChange(font.id);
+  };
+
+  const remove = async (font: FontOption) => {
+    await deleteUploadedFont(font.id);
+    if (props.value === font.id) props.onChange(FONT_OPTIONS[0].id);
+    props.onUploadedFontsChange();
+  };
+
+  return (
+    <div class="flex flex-col gap-1 w-full">
+      <span class="flex items-center gap-2">
+        <span>الخط</span>
+        <Show when={props.source}>
+          {(source) => <LayerBadge source={source()} />}
+        </Show>
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger as={Button<"button">}>
+          {findFont(props.value, props.uploadedFonts).name}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent class="max-h-80 overflow-y-auto">
+          <DropdownMenuGroup>
+            <DropdownMenuGroupLabel>الخط</DropdownMenuGroupLabel>
+            <DropdownMenuRadioGroup
+              value={props.value}
+              onChange={props.onChange}
+            >
+              <For each={[...FONT_OPTIONS, ...props.uploadedFonts]}>
+                {(font) => (
+                  <DropdownMenuRadioItem value={font.id}>
+                    <FontPreview font={font} />
+                  </DropdownMenuRadioItem>
+                )}
+              </For>
+            </DropdownMenuRadioGroup>
+          </DropdownMenuGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Show when={props.uploadedFonts.length}>
+        <ul class="flex flex-col gap-1">
+          <For each={props.uploadedFonts}>
+            {(font) => (
+              <li class="flex items-center justify-between gap-2 text-sm">
+                <FontPreview font={font} />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="حذف"
+                  onclick={() => remove(font)}
+                >
+                  <IoTrash />
+                </Button>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+      <div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".ttf,.otf,.woff,.woff2"
+          class="hidden"
+          onChange={(e) => upload(e.currentTarget.files?.[0])}
+        />
+        <Button size="sm" variant="outline" onclick={() => fileInput.click()}>
+          رفع خط
+        </Button>
+      </div>
+      <Show when={uploadError()}>
+        <span class="text-xs text-destructive">{uploadError()}</span>
+      </Show>
+    </div>
+  );
+};
+
+export default FontSettings;
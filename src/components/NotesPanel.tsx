@@ -0,0 +1,95 @@
+import { IoArrowBack, IoTrash } from "solid-icons/io";
+import { For, Show } from "solid-js";
+import { ANNOTATION_COLORS, type Annotation } from "~/lib/annotations";
+import { Button } from "./ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "./ui/sheet";
+
+const swatchOf = (annotation: Annotation) =>
+  ANNOTATION_COLORS.find((color) => color.id === annotation.color)?.swatch;
+
+// Notes Panel Component
+const NotesPanel = (props: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The novel's annotations in reading order. */
+  annotations: Annotation[];
+  onSelect: (annotation: Annotation) => void;
+  onDelete: (annotation: Annotation) => void;
+  onExport: () => void;
+}) => (
+  <Sheet open={props.open} onOpenChange={props.onOpenChange}>
+    <SheetContent position="right" class="rtl overflow-y-auto">
+      <SheetHeader>
+        <SheetTitle>الملاحظات</SheetTitle>
+      </SheetHeader>
+      <Show
+        when={props.annotations.length}
+        fallback={
+          <p class="text-sm text-muted-foreground">
+            حدد نصا في الفصل لتظليله أو إضافة ملاحظة
+          </p>
+        }
+      >
+        <div>
+          <Button size="sm" variant="outline" onclick={props.onExport}>
+            تصدير Markdown
+          </Button>
+        </div>
+        <ul class="flex flex-col gap-3">
+          <For each={props.annotations}>
+            {(annotation, i) => (
+              <li class="flex flex-col gap-1">
+                <Show
+                  when={
+                    annotation.chapterUrl !==
+                    props.annotations[i() - 1]?.chapterUrl
+                  }
+                >
+                  <span class="mt-2 text-sm font-bold">
+                    {annotation.chapterTitle}
+                  </span>
+                </Show>
+                <div
+                  class="flex items-start gap-2 border-s-4 ps-2"
+                  style={{ "border-color": swatchOf(annotation) }}
+                >
+                  <div class="flex flex-1 flex-col gap-1 text-sm">
+                    <span class="line-clamp-3">{annotation.quote}</span>
+                    <Show when={annotation.note}>
+                      <span class="whitespace-pre-wrap text-muted-foreground">
+                        {annotation.note}
+                      </span>
+                    </Show>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="انتقال"
+                    onclick={() => props.onSelect(annotation)}
+                  >
+                    <IoArrowBack />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="حذف"
+                    onclick={() => props.onDelete(annotation)}
+                  >
+                    <IoTrash />
+                  </Button>
+                </div>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+    </SheetContent>
+  </Sheet>
+);
+
+export default NotesPanel;
@@ -0,0 +1,252 @@
+import {
+  createEffect,
+  createSignal,
+  on,
+  onCleanup,
+  onMount,
+} from "solid-js";
+import type { ChapterData } from "~/types";
+
+export interface PageControls {
+  nextPage: () => void;
+  previousPage: () => void;
+}
+
+const COLUMN_GAP = 48;
+const SWIPE_THRESHOLD_PX = 50;
+// Outer share of the width on each side that turns the page when clicked
+const CLICK_ZONE_RATIO = 0.3;
+
+// Paginated View Component
+const PaginatedView = (props: {
+  chapter: ChapterData;
+  /** The chapter's content as rendered, after replacement rules. */
+  content: string;
+  /** Paragraph to open the chapter at; a new object re-targets the same one. */
+  target: { paragraph: number };
+  backgroundColor: string;
+  // Layout inputs, watched so pages are recomputed when they change
+  fontSize: number;
+  lineHeight: number;
+  fontFamily: string;
+  /** The `<main>` layout variables; only their values are compared. */
+  layout: Record<string, string>;
+  hasPreviousChapter: boolean;
+  onNextChapter: () => void;
+  onPreviousChapter: () => void;
+  onPageChange: (paragraph: number, lastPage: boolean) => void;
+  ref?: (controls: PageControls) => void;
+}) => {
+  let viewport!: HTMLDivElement;
+  let columns!: HTMLDivElement;
+  let content!: HTMLDivElement;
+
+  const [width, setWidth] = createSignal(0);
+  const [page, setPage] = createSignal(0);
+  const [pageCount, setPageCount] = createSignal(1);
+  // First paragraph of the page being read, kept across re-layouts
+  let anchorParagraph = 0;
+  // Set when leaving backwards, so the previous chapter opens on its last page
+  let openAtEnd = false;
+  let touchStartX: number | null = null;
+
+  const step = () => width() + COLUMN_GAP;
+  const paragraphs = () => Array.from(content.children);
+
+  // Pages run right to left, so count them from the right edge
+  const pageOfRect = (rect: DOMRect) =>
+    Math.max(
+      0,
+      Math.floor(
+        (columns.getBoundingClientRect().right - rect.right + 1) / step()
+      )
+    );
+
+  const measure = () => {
+    const rects = [columns, ...paragraphs()].map((el) =>
+      el.getBoundingClientRect()
+    );
+    const leftmost = Math.min(...rects.map((rect) => rect.left));
+    const right = rects[0].right;
+    setPageCount(
+      Math.max(1, Math.round((right - leftmost + COLUMN_GAP) / step()))
+    );
+  };
+
+  const pageOfParagraph = (index: number) => {
+    const paragraph = paragraphs()[index];
+    if (!paragraph) return 0;
+    return Math.min(
+      pageCount() - 1,
+      pageOfRect(paragraph.getBoundingClientRect())
+    );
+  };
+
+  // The paragraph the page starts in, which may have begun on an earlier page
+  const paragraphOnPage = (target: number) => {
+    let found = 0;
+    paragraphs().forEach((paragraph, i) => {
+      if (pageOfRect(paragraph.getBoundingClientRect()) <= target) found = i;
+    });
+    return found;
+  };
+
+  const showPage = (target: number) => {
+    setPage(Math.max(0, Math.min(pageCount() - 1, target)));
+    anchorParagraph = paragraphOnPage(page());
+    props.onPageChange(anchorParagraph, page() === pageCount() - 1);
+  };
+
+  const nextPage = () => {
+    openAtEnd = false;
+    if (page() < pageCount() - 1) showPage(page() + 1);
+    else props.onNextChapter();
+  };
+
+  const previousPage = () => {
+    if (page() > 0) {
+      showPage(page() - 1);
+    } else if (props.hasPreviousChapter) {
+      openAtEnd = true;
+      props.onPreviousChapter();
+    }
+  };
+
+  props.ref?.({ nextPage, previousPage });
+
+  // One layout per frame, however many inputs changed. Opening a chapter
+  // wins over a plain relayout, and leaving backwards is only forgotten once
+  // the previous chapter has been laid out.
+  let layoutFrame = 0;
+  let opening = false;
+  const scheduleLayout = (open: boolean) => {
+    opening ||= open;
+    cancelAnimationFrame(layoutFrame);
+    layoutFrame = requestAnimationFrame(() => {
+      measure();
+      if (!opening) {
+        showPage(pageOfParagraph(anchorParagraph));
+      } else if (openAtEnd) {
+        showPage(pageCount() - 1);
+      } else {
+        showPage(pageOfParagraph(props.target.paragraph));
+      }
+      if (opening) openAtEnd = false;
+      opening = false;
+    });
+  };
+  const relayout = () => scheduleLayout(false);
+
+  // Open a new chapter at its target paragraph (or the end, going backwards)
+  createEffect(
+    on([() => props.chapter, () => props.target], () => scheduleLayout(true))
+  );
+
+  // Text size changes move every page boundary, so keep the same paragraph
+  createEffect(
+    on(
+      [
+        width,
+        () => props.fontSize,
+        () => props.lineHeight,
+        () => props.fontFamily,
+        () => Object.values(props.layout).join(),
+      ],
+      relayout,
+      { defer: true }
+    )
+  );
+
+  // New rules rewrite the open chapter's text; a new chapter is opened above
+  createEffect(
+    on(
+      [() => props.chapter, () => props.content],
+      ([chapter], previous) => {
+        if (previous?.[0] === chapter) relayout();
+      },
+      { defer: true }
+    )
+  );
+
+  const handleClick = (event: MouseEvent) => {
+    // Let links, images and text selections behave normally
+    if ((event.target as Element).closest("a, img")) return;
+    if (!window.getSelection()?.isCollapsed) return;
+
+    const rect = viewport.getBoundingClientRect();
+    const x = (event.clientX - rect.left) / rect.width;
+    if (x < CLICK_ZONE_RATIO) nextPage();
+    else if (x > 1 - CLICK_ZONE_RATIO) previousPage();
+  };
+
+  const handleTouchStart = (event: TouchEvent) => {
+    touchStartX = event.touches.length === 1 ? event.touches[0].clientX : null;
+  };
+
+  // Right-to-left pages turn by pulling the page to the right
+  const handleTouchEnd = (event: TouchEvent) => {
+    if (touchStartX === null) return;
+    const distance = event.changedTouches[0].clientX - touchStartX;
+    touchStartX = null;
+    if (distance > SWIPE_THRESHOLD_PX) nextPage();
+    else if (distance < -SWIPE_THRESHOLD_PX) previousPage();
+  };
+
+  onMount(() => {
+    const observer = new ResizeObserver(() => setWidth(viewport.clientWidth));
+    observer.observe(viewport);
+    setWidth(viewport.clientWidth);
+    // Web fonts arrive after the first layout and change its line breaks
+    document.fonts.addEventListener("loadingdone", relayout);
+    onCleanup(() => {
+      observer.disconnect();
+      document.fonts.removeEventListener("loadingdone", relayout);
+      cancelAnimationFrame(layoutFrame);
+    });
+  });
+
+  return (
+    <div
+      class={`${props.backgroundColor} h-full flex flex-col py-4 chapter-container`}
+      style={{ "padding-inline": "var(--side-padding)" }}
+      data-url={props.chapter.uri}
+    >
+      <div
+        ref={viewport}
+        dir="rtl"
+        class="flex-1 min-h-0 w-full mx-auto overflow-hidden select-text"
+        style={{ "max-width": "var(--text-width)" }}
+        onClick={handleClick}
+        onTouchStart={handleTouchStart}
+        onTouchEnd={handleTouchEnd}
+      >
+        <div
+          ref={columns}
+          class="h-full"
+          style={{
+            "column-width": `${width()}px`,
+            "column-gap": `${COLUMN_GAP}px`,
+            "column-fill": "auto",
+            transform: `translateX(${page() * step()}px)`,
+          }}
+        >
+          <h2 class="mb-4 font-bold">{props.chapter.title}</h2>
+          <div
+            ref={content}
+            innerHTML={props.content}
+            class="chapter-content"
+            style={{
+              "line-height": "var(--line-height)",
+              "font-size": "var(--fontSize)",
+            }}
+          />
+        </div>
+      </div>
+      <div class="pt-2 text-center text-xs text-gray-500">
+        صفحة {page() + 1} من {pageCount()}
+      </div>
+    </div>
+  );
+};
+
+export default PaginatedView;
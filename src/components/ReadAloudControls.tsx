@@ -0,0 +1,121 @@
+import {
+  IoPause,
+  IoPlay,
+  IoPlaySkipBack,
+  IoPlaySkipForward,
+  IoStop,
+} from "solid-icons/io";
+import { createEffect, createSignal, For, onCleanup, Show } from "solid-js";
+import { ReadAloud, type ReadAloudState } from "~/lib/readAloud";
+import { Button } from "./ui/button";
+
+// Sleep timer choices in minutes, 0 turns it off
+const SLEEP_TIMER_OPTIONS = [0, 15, 30, 60];
+
+// Read Aloud Controls Component
+const ReadAloudControls = (props: {
+  rate: number;
+  pitch: number;
+  /** Where reading starts: the chapter card and paragraph on screen. */
+  getStartPosition: () => {
+    chapterElement: HTMLElement;
+    paragraph: number;
+  } | null;
+  getParagraphs: (chapterElement: HTMLElement) => Element[];
+  getNextChapter: (chapterElement: HTMLElement) => Promise<HTMLElement | null>;
+}) => {
+  if (!ReadAloud.isSupported()) return null;
+
+  const [state, setState] = createSignal<ReadAloudState>("idle");
+  const [sleepMinutes, setSleepMinutes] = createSignal(0);
+  let sleepTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const player = new ReadAloud({
+    onStateChange: setState,
+    getParagraphs: props.getParagraphs,
+    getNextChapter: props.getNextChapter,
+  });
+
+  createEffect(() => {
+    player.rate = props.rate;
+    player.pitch = props.pitch;
+  });
+
+  const clearSleepTimer = () => {
+    clearTimeout(sleepTimer);
+    sleepTimer = undefined;
+  };
+
+  const startSleepTimer = (minutes: number) => {
+    setSleepMinutes(minutes);
+    clearSleepTimer();
+    if (minutes > 0) {
+      sleepTimer = setTimeout(() => {
+        player.pause();
+        setSleepMinutes(0);
+      }, minutes * 60 * 1000);
+    }
+  };
+
+  const togglePlayback = () => {
+    if (state() === "playing") {
+      player.pause();
+    } else if (state() === "paused") {
+      player.resume();
+    } else {
+      const position = props.getStartPosition();
+      if (position) player.start(position.chapterElement, position.paragraph);
+    }
+  };
+
+  const stop = () => {
+    player.stop();
+    startSleepTimer(0);
+  };
+
+  onCleanup(() => {
+    clearSleepTimer();
+    player.destroy();
+  });
+
+  return (
+    <div class="flex items-center gap-2">
+      {/* Skip icons are mirrored for right-to-left reading */}
+      <Show when={state() !== "idle"}>
+        <Button size="icon" variant="ghost" onclick={() => player.previous()}>
+          <IoPlaySkipForward />
+        </Button>
+      </Show>
+      <Button
+        size="icon"
+        onclick={togglePlayback}
+        title={state() === "playing" ? "إيقاف مؤقت" : "قراءة بصوت عال"}
+      >
+        {state() === "playing" ? <IoPause /> : <IoPlay />}
+      </Button>
+      <Show when={state() !== "idle"}>
+        <Button size="icon" variant="ghost" onclick={() => player.next()}>
+          <IoPlaySkipBack />
+        </Button>
+        <Button size="icon" variant="ghost" onclick={stop} title="إيقاف">
+          <IoStop />
+        </Button>
+        <select
+          title="مؤقت النوم"
+          onChange={(e) => startSleepTimer(Number(e.currentTarget.value))}
+          class="h-9 rounded-md border border-input bg-background px-2 text-sm"
+        >
+          <For each={SLEEP_TIMER_OPTIONS}>
+            {(minutes) => (
+              <option value={minutes} selected={minutes === sleepMinutes()}>
+                {minutes ? `${minutes} دقيقة` : "بدون مؤقت"}
+              </option>
+            )}
+          </For>
+        </select>
+      </Show>
+    </div>
+  );
+};
+
+export default ReadAloudControls;
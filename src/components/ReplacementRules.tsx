@@ -0,0 +1,357 @@
+import {
+  IoArrowDown,
+  IoArrowUp,
+  IoCreate,
+  IoTrash,
+} from "solid-icons/io";
+import { createMemo, createSignal, For, Show } from "solid-js";
+import { downloadBlob } from "~/lib/export";
+import {
+  applyReplacementRules,
+  compileRule,
+  exportRuleSet,
+  importRuleSet,
+  previewRule,
+  type ReplacementRule,
+  type RuleImportError,
+  rulesForNovel,
+} from "~/lib/replacements";
+import { debounce } from "~/lib/utils";
+import { Button } from "./ui/button";
+import { Toggle } from "./ui/toggle";
+
+const IMPORT_ERROR_MESSAGES: Record<RuleImportError, string> = {
+  "invalid-json": "الملف ليس بصيغة JSON",
+  "wrong-format": "الملف ليس مجموعة قواعد استبدال",
+};
+
+const PREVIEW_DEBOUNCE_MS = 300;
+
+const inputClass =
+  "h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-ring";
+
+// Rule Editor Component
+const RuleEditor = (props: {
+  rule: ReplacementRule;
+  novelUrl: string;
+  /** Current chapter content with the rules before this one applied. */
+  previewContent: string;
+  onSave: (rule: ReplacementRule) => void;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = createSignal({ ...props.rule });
+  // The preview runs the rule over the whole chapter, so not on every key
+  const [previewed, setPreviewed] = createSignal(draft());
+  const updatePreview = debounce(
+    (rule: ReplacementRule) => setPreviewed(rule),
+    PREVIEW_DEBOUNCE_MS
+  );
+  const update = (changes: Partial<ReplacementRule>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    updatePreview(draft());
+  };
+
+  const compileError = () => {
+    const { error } = compileRule(draft());
+    return draft().find && error;
+  };
+  const preview = createMemo(() =>
+    previewRule(props.previewContent, previewed())
+  );
+
+  return (
+    <div class="flex flex-col gap-2 rounded border p-2">
+      <input
+        value={draft().find}
+        onInput={(e) => update({ find: e.currentTarget.value })}
+        placeholder={draft().regex ? "تعبير نمطي" : "النص المراد استبداله"}
+        dir="auto"
+        class={inputClass}
+      />
+      <input
+        value={draft().replace}
+        onInput={(e) => update({ replace: e.currentTarget.value })}
+        placeholder="الاستبدال"
+        dir="auto"
+        class={inputClass}
+      />
+      <div class="flex flex-wrap gap-2">
+        <Toggle
+          pressed={draft().regex}
+          onChange={(regex) => update({ regex })}
+          variant="outline"
+          size="sm"
+        >
+          تعبير نمطي
+        </Toggle>
+        <Toggle
+          pressed={draft().novelUrl !== null}
+          onChange={(pressed) =>
+            update({ novelUrl: pressed ? props.novelUrl : null })
+          }
+          variant="outline"
+          size="sm"
+        >
+          {draft().novelUrl !== null ? "هذه الرواية فقط" : "كل الروايات"}
+        </Toggle>
+      </div>
+      <Show when={compileError()}>
+        <span class="text-xs text-destructive" dir="auto">
+          {compileError()}
+        </span>
+      </Show>
+
+      <Show when={draft().find && !compileError()}>
+        <span class="text-xs text-gray-500">
+          {preview().count} تطابق في الفصل الحالي
+        </span>
+        <ul class="flex flex-col gap-1 text-xs">
+          <For each={preview().samples}>
+            {(sample) => (
+              <li class="rounded bg-muted p-1">
+                <div class="line-through opacity-60">{sample.before}</div>
+                <div>{sample.after}</div>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      <div class="flex gap-2">
+        <Button
+          size="sm"
+          disabled={!draft().find || !!compileError()}
+          onclick={() => props.onSave(draft())}
+        >
+          حفظ
+        </Button>
+        <Button size="sm" variant="outline" onclick={props.onCancel}>
+          إلغاء
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Replacement Rules Component
+const ReplacementRules = (props: {
+  rules: ReplacementRule[];
+  novelUrl: string;
+  /** Content of the chapter being read, for previews. */
+  previewContent: string;
+  onChange: (rules: ReplacementRule[]) => void;
+}) => {
+  const [editing, setEditing] = createSignal<ReplacementRule | null>(null);
+  const [status, setStatus] = createSignal("");
+  let fileInput!: HTMLInputElement;
+
+  // Other novels' rules stay stored but out of sight
+  const visibleRules = () => rulesForNovel(props.rules, props.novelUrl);
+
+  const addRule = () =>
+    setEditing({
+      id: `rule-${Date.now()}`,
+      find: "",
+      replace: "",
+      regex: false,
+      novelUrl: props.novelUrl,
+      enabled: true,
+    });
+
+  // A rule being added rather than edited in place
+  const newRule = () => {
+    const rule = editing();
+    return rule && !props.rules.some((r) => r.id === rule.id) ? rule : null;
+  };
+
+  const saveRule = (rule: ReplacementRule) => {
+    const exists = props.rules.some((r) => r.id === rule.id);
+    props.onChange(
+      exists
+        ? props.rules.map((r) => (r.id === rule.id ? rule : r))
+        : [...props.rules, rule]
+    );
+    setEditing(null);
+  };
+
+  const updateRule = (id: string, changes: Partial<ReplacementRule>) =>
+    props.onChange(
+      props.rules.map((r) => (r.id === id ? { ...r, ...changes } : r))
+    );
+
+  // Swap with the neighbouring visible rule, wherever it is in the full list
+  const moveRule = (rule: ReplacementRule, direction: 1 | -1) => {
+    const visible = visibleRules();
+    const neighbour = visible[visible.indexOf(rule) + direction];
+    if (!neighbour) return;
+    props.onChange(
+      props.rules.map((r) =>
+        r === rule ? neighbour : r === neighbour ? rule : r
+      )
+    );
+  };
+
+  // Preview against what the rule will actually see: the chapter after
+  // every earlier rule ran
+  const previewContentFor = (rule: ReplacementRule) => {
+    const visible = visibleRules();
+    const index = visible.findIndex((r) => r.id === rule.id);
+    return applyReplacementRules(
+      props.previewContent,
+      index === -1 ? visible : visible.slice(0, index)
+    );
+  };
+
+  const exportRules = () => {
+    const data = JSON.stringify(exportRuleSet(visibleRules()), null, 2);
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(
+      new Blob([data], { type: "application/json" }),
+      `replacement-rules-${date}.json`
+    );
+  };
+
+  const importRules = async (file: File | undefined) => {
+    if (!file) return;
+    const { data: rules, error } = importRuleSet(
+      await file.text(),
+      props.novelUrl
+    );
+    fileInput.value = "";
+    if (error) {
+      setStatus(IMPORT_ERROR_MESSAGES[error]);
+      return;
+    }
+    props.onChange([...props.rules, ...rules]);
+    setStatus(`تمت إضافة ${rules.length} قاعدة`);
+  };
+
+  return (
+    <div class="flex flex-col gap-2 w-full">
+      <span>قواعد الاستبدال</span>
+      <span class="text-xs text-gray-500">
+        تطبق بالترتيب على نص الفصول قبل عرضها، لتوحيد كتابة الأسماء مثلا
+      </span>
+
+      <ul class="flex flex-col gap-1">
+        <For each={visibleRules()}>
+          {(rule, i) => (
+            <li>
+              <Show
+                when={editing()?.id !== rule.id}
+                fallback={
+                  <RuleEditor
+                    rule={rule}
+                    novelUrl={props.novelUrl}
+                    previewContent={previewContentFor(rule)}
+                    onSave={saveRule}
+                    onCancel={() => setEditing(null)}
+                  />
+                }
+              >
+                <div class="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={(e) =>
+                      updateRule(rule.id, { enabled: e.currentTarget.checked })
+                    }
+                    aria-label="مفعلة"
+                  />
+                  <span
+                    class={`flex-1 truncate ${rule.regex ? "font-mono" : ""} ${
+                      rule.enabled ? "" : "opacity-50"
+                    }`}
+                    dir="auto"
+                  >
+                    {rule.find} ← {rule.replace}
+                  </span>
+                  <span class="text-xs text-gray-500">
+                    {rule.novelUrl === null ? "عامة" : "الرواية"}
+                  </span>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="أعلى"
+                    disabled={i() === 0}
+                    onclick={() => moveRule(rule, -1)}
+                  >
+                    <IoArrowUp />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="أسفل"
+                    disabled={i() === visibleRules().length - 1}
+                    onclick={() => moveRule(rule, 1)}
+                  >
+                    <IoArrowDown />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="تعديل"
+                    onclick={() => setEditing(rule)}
+                  >
+                    <IoCreate />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="حذف"
+                    onclick={() =>
+                      props.onChange(props.rules.filter((r) => r !== rule))
+                    }
+                  >
+                    <IoTrash />
+                  </Button>
+                </div>
+              </Show>
+            </li>
+          )}
+        </For>
+      </ul>
+
+      <Show when={newRule()}>
+        {(rule) => (
+          <RuleEditor
+            rule={rule()}
+            novelUrl={props.novelUrl}
+            previewContent={previewContentFor(rule())}
+            onSave={saveRule}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+      </Show>
+
+      <div class="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onclick={addRule}>
+          إضافة قاعدة
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={visibleRules().length === 0}
+          onclick={exportRules}
+        >
+          تصدير القواعد
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          class="hidden"
+          onChange={(e) => importRules(e.currentTarget.files?.[0])}
+        />
+        <Button size="sm" variant="outline" onclick={() => fileInput.click()}>
+          استيراد القواعد
+        </Button>
+      </div>
+      <Show when={status()}>
+        <span class="text-xs text-gray-500">{status()}</span>
+      </Show>
+    </div>
+  );
+};
+
+export default ReplacementRules;
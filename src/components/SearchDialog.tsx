@@ -0,0 +1,112 @@
+import {
+  createMemo,
+  createResource,
+  createSignal,
+  For,
+  Show,
+} from "solid-js";
+import {
+  MAX_RESULTS,
+  MIN_QUERY_LENGTH,
+  normalizeQuery,
+  type SearchableChapter,
+  type SearchResult,
+  searchChapters,
+} from "~/lib/search";
+import { debounce } from "~/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Toggle } from "./ui/toggle";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Search Dialog Component
+const SearchDialog = (props: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The chapters to search, in reading order. */
+  getChapters: (includeCached: boolean) => Promise<SearchableChapter[]>;
+  onSelect: (result: SearchResult) => void;
+}) => {
+  const [query, setQuery] = createSignal("");
+  const [includeCached, setIncludeCached] = createSignal(false);
+  const updateQuery = debounce(setQuery, SEARCH_DEBOUNCE_MS);
+
+  // Chapters are prepared once per opening, not on every key press
+  const [chapters] = createResource(
+    () => props.open && { includeCached: includeCached() },
+    ({ includeCached }) => props.getChapters(includeCached),
+    { initialValue: [] }
+  );
+  const results = createMemo(() => searchChapters(chapters(), query()));
+  const tooShort = () => normalizeQuery(query()).length < MIN_QUERY_LENGTH;
+
+  return (
+    <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+      <DialogContent class="rtl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>البحث في الفصول</DialogTitle>
+        </DialogHeader>
+        <input
+          type="search"
+          value={query()}
+          onInput={(e) => updateQuery(e.currentTarget.value)}
+          placeholder="ابحث عن كلمة أو عبارة"
+          autofocus
+          class="h-10 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <div class="flex items-center justify-between gap-2 text-sm">
+          <Toggle
+            pressed={includeCached()}
+            onChange={setIncludeCached}
+            variant="outline"
+            size="sm"
+          >
+            {includeCached() ? "كل الفصول المحفوظة" : "الفصول المعروضة فقط"}
+          </Toggle>
+          <Show when={!tooShort() && !chapters.loading}>
+            <span class="text-muted-foreground">
+              {results().length >= MAX_RESULTS
+                ? `أول ${MAX_RESULTS} نتيجة`
+                : `${results().length} نتيجة`}
+            </span>
+          </Show>
+        </div>
+        <ul class="flex flex-col gap-1 overflow-y-auto">
+          <For each={results()}>
+            {(result, i) => (
+              <li>
+                <Show
+                  when={
+                    result.chapterUrl !== results()[i() - 1]?.chapterUrl
+                  }
+                >
+                  <span class="mt-2 block text-sm font-bold">
+                    {result.chapterTitle}
+                  </span>
+                </Show>
+                <button
+                  type="button"
+                  onclick={() => props.onSelect(result)}
+                  class="w-full cursor-pointer rounded px-3 py-2 text-start text-sm hover:bg-accent"
+                >
+                  {result.before}
+                  <mark class="rounded bg-yellow-300/60 text-inherit">
+                    {result.match}
+                  </mark>
+                  {result.after}
+                </button>
+              </li>
+            )}
+          </For>
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchDialog;
@@ -0,0 +1,48 @@
+import { For } from "solid-js";
+import {
+  formatShortcut,
+  SHORTCUT_LABELS,
+  type ShortcutAction,
+  type ShortcutMap,
+} from "~/lib/shortcuts";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+// Shortcut Help Overlay Component
+const ShortcutHelp = (props: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shortcuts: ShortcutMap;
+}) => (
+  <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+    <DialogContent class="rtl">
+      <DialogHeader>
+        <DialogTitle>اختصارات لوحة المفاتيح</DialogTitle>
+      </DialogHeader>
+      <dl class="grid grid-cols-[1fr_auto] gap-x-4 gap-y-2 text-sm">
+        <For
+          each={(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).filter(
+            (action) => props.shortcuts[action]
+          )}
+        >
+          {(action) => (
+            <>
+              <dt>{SHORTCUT_LABELS[action]}</dt>
+              <dd>
+                <kbd class="rounded border px-2 py-0.5 font-mono text-xs">
+                  {formatShortcut(props.shortcuts[action])}
+                </kbd>
+              </dd>
+            </>
+          )}
+        </For>
+      </dl>
+    </DialogContent>
+  </Dialog>
+);
+
+export default ShortcutHelp;
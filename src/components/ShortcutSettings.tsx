@@ -0,0 +1,83 @@
+import { createSignal, For, onCleanup } from "solid-js";
+import {
+  eventToShortcut,
+  formatShortcut,
+  SHORTCUT_LABELS,
+  shortcutsConflict,
+  type ShortcutAction,
+  type ShortcutMap,
+} from "~/lib/shortcuts";
+import { Button } from "./ui/button";
+
+// Shortcut Settings Component
+const ShortcutSettings = (props: {
+  shortcuts: ShortcutMap;
+  onChange: (shortcuts: ShortcutMap) => void;
+  onReset: () => void;
+}) => {
+  const [recording, setRecording] = createSignal<ShortcutAction | null>(null);
+
+  // Capture the next key press for the action being rebound, before the
+  // reader or the dialog gets to act on it
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const action = recording();
+    if (!action) return;
+    event.preventDefault();
+    event.stopImmediatePropagation();
+
+    if (event.key === "Escape") {
+      setRecording(null);
+      return;
+    }
+    const shortcut = eventToShortcut(event);
+    if (!shortcut) return;
+
+    // A key can only do one thing at a time, so take it away from any other
+    // action active in the same mode
+    const updated = { ...props.shortcuts };
+    for (const other of Object.keys(updated) as ShortcutAction[]) {
+      if (updated[other] === shortcut && shortcutsConflict(action, other)) {
+        updated[other] = "";
+      }
+    }
+    updated[action] = shortcut;
+    props.onChange(updated);
+    setRecording(null);
+  };
+
+  window.addEventListener("keydown", handleKeyDown, true);
+  onCleanup(() => window.removeEventListener("keydown", handleKeyDown, true));
+
+  return (
+    <div class="flex flex-col gap-2 w-full">
+      <span>اختصارات لوحة المفاتيح</span>
+      <ul class="flex flex-col gap-1">
+        <For each={Object.keys(SHORTCUT_LABELS) as ShortcutAction[]}>
+          {(action) => (
+            <li class="flex items-center justify-between gap-2 text-sm">
+              <span>{SHORTCUT_LABELS[action]}</span>
+              <Button
+                size="sm"
+                variant={recording() === action ? "default" : "outline"}
+                onclick={() =>
+                  setRecording(recording() === action ? null : action)
+                }
+              >
+                {recording() === action
+                  ? "اضغط مفتاحا..."
+                  : formatShortcut(props.shortcuts[action])}
+              </Button>
+            </li>
+          )}
+        </For>
+      </ul>
+      <div>
+        <Button size="sm" variant="outline" onclick={props.onReset}>
+          استعادة الافتراضي
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutSettings;
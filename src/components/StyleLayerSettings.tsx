@@ -0,0 +1,155 @@
+import { createSignal, For, Show } from "solid-js";
+import {
+  OVERRIDABLE_SETTINGS,
+  type OverridableSetting,
+  type StyleLayer,
+  type StyleOverride,
+} from "~/lib/settings";
+import { Button } from "./ui/button";
+
+type OverrideLayer = Exclude<StyleLayer, "global">;
+
+const LAYER_LABELS: Record<StyleLayer, string> = {
+  global: "عام",
+  novel: "هذه الرواية",
+  device: "هذا الجهاز",
+};
+
+const SETTING_LABELS: Record<OverridableSetting, string> = {
+  fontSize: "حجم الخط",
+  lineHeight: "ارتفاع السطر",
+  textWidth: "عرض النص",
+  sidePadding: "الهامش الجانبي",
+  textAlign: "محاذاة النص",
+  paragraphSpacing: "المسافة بين الفقرات",
+  textIndent: "إزاحة السطر الأول",
+  letterSpacing: "تباعد الأحرف",
+  wordSpacing: "تباعد الكلمات",
+  fontFamily: "الخط",
+  backgroundColor: "الثيم",
+  layoutMode: "طريقة العرض",
+};
+
+// Marks which layer a setting's value comes from
+export const LayerBadge = (props: { source: StyleLayer }) => (
+  <span
+    class={`text-xs rounded px-1 ${
+      props.source === "global"
+        ? "text-gray-500"
+        : "bg-primary text-primary-foreground"
+    }`}
+  >
+    {LAYER_LABELS[props.source]}
+  </span>
+);
+
+// Style Layer Settings Component
+const StyleLayerSettings = (props: {
+  /** Settings to tick when picking for a layer. */
+  suggested: (layer: OverrideLayer) => OverridableSetting[];
+  novelOverride: StyleOverride;
+  deviceOverride: StyleOverride;
+  onSave: (layer: OverrideLayer, keys: OverridableSetting[]) => void;
+  onClear: (layer: OverrideLayer) => void;
+}) => {
+  // The layer whose fields are being picked, and the picked fields
+  const [picking, setPicking] = createSignal<OverrideLayer | null>(null);
+  const [picked, setPicked] = createSignal(new Set<OverridableSetting>());
+
+  const override = (layer: OverrideLayer) =>
+    layer === "novel" ? props.novelOverride : props.deviceOverride;
+
+  const startPicking = (layer: OverrideLayer) => {
+    setPicked(new Set(props.suggested(layer)));
+    setPicking(layer);
+  };
+
+  const togglePicked = (key: OverridableSetting, checked: boolean) =>
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+
+  const save = (layer: OverrideLayer) => {
+    props.onSave(
+      layer,
+      OVERRIDABLE_SETTINGS.filter((key) => picked().has(key))
+    );
+    setPicking(null);
+  };
+
+  return (
+    <div class="flex flex-col gap-2 w-full">
+      <span>التخصيص</span>
+      <span class="text-xs text-gray-500">
+        تطبق اعدادات الرواية ثم اعدادات الجهاز فوق الاعدادات العامة، ويحفظ كل
+        تعديل في المستوى الذي تأتي منه قيمته
+      </span>
+      <For each={["novel", "device"] as const}>
+        {(layer) => (
+          <div class="flex flex-col gap-2">
+            <div class="flex flex-wrap items-center gap-2">
+              <span class="text-sm min-w-24">{LAYER_LABELS[layer]}</span>
+              <Button
+                size="sm"
+                variant="outline"
+                onclick={() => startPicking(layer)}
+              >
+                حفظ الاعدادات الحالية
+              </Button>
+              <Show when={Object.keys(override(layer)).length}>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onclick={() => props.onClear(layer)}
+                >
+                  إزالة
+                </Button>
+              </Show>
+            </div>
+            <Show when={picking() === layer}>
+              <div class="flex flex-col gap-2 rounded border p-2">
+                <span class="text-xs text-gray-500">
+                  الاعدادات التي يثبتها هذا المستوى بقيمها الحالية، وتعود
+                  قيمها العامة إلى ما كانت عليه عند فتح القارئ
+                </span>
+                <div class="grid grid-cols-2 gap-1 text-sm">
+                  <For each={OVERRIDABLE_SETTINGS}>
+                    {(key) => (
+                      <label class="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={picked().has(key)}
+                          onChange={(e) =>
+                            togglePicked(key, e.currentTarget.checked)
+                          }
+                        />
+                        {SETTING_LABELS[key]}
+                      </label>
+                    )}
+                  </For>
+                </div>
+                <div class="flex gap-2">
+                  <Button size="sm" onclick={() => save(layer)}>
+                    حفظ
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onclick={() => setPicking(null)}
+                  >
+                    إلغاء
+                  </Button>
+                </div>
+              </div>
+            </Show>
+          </div>
+        )}
+      </For>
+    </div>
+  );
+};
+
+export default StyleLayerSettings;
@@ -0,0 +1,257 @@
+import { IoCreate, IoTrash } from "solid-icons/io";
+import { createSignal, For, Show } from "solid-js";
+import type { StyleLayer } from "~/lib/settings";
+import {
+  BUILT_IN_THEMES,
+  contrastRatio,
+  findTheme,
+  MIN_CONTRAST_RATIO,
+  type ReaderTheme,
+  themeVariables,
+} from "~/lib/themes";
+import { LayerBadge } from "./StyleLayerSettings";
+import { Button } from "./ui/button";
+
+type ThemeColor = "background" | "text" | "link" | "selection" | "header";
+
+const COLOR_LABELS: Record<ThemeColor, string> = {
+  background: "الخلفية",
+  text: "النص",
+  link: "الروابط",
+  selection: "التحديد",
+  header: "الترويسة",
+};
+
+// Colour pairs that have to stay readable, checked against the WCAG minimum
+const CONTRAST_CHECKS: { label: string; fg: ThemeColor; bg: ThemeColor }[] = [
+  { label: "النص", fg: "text", bg: "background" },
+  { label: "الروابط", fg: "link", bg: "background" },
+  { label: "الترويسة", fg: "text", bg: "header" },
+  { label: "التحديد", fg: "text", bg: "selection" },
+];
+
+// Swatch button showing a theme's background and text colours
+const ThemeSwatch = (props: {
+  theme: ReaderTheme;
+  selected: boolean;
+  onSelect: () => void;
+}) => (
+  <button
+    class={`rounded-md border px-3 py-1 text-sm ${
+      props.selected ? "ring-2 ring-ring" : ""
+    }`}
+    style={{ background: props.theme.background, color: props.theme.text }}
+    onclick={props.onSelect}
+  >
+    {props.theme.name}
+  </button>
+);
+
+// Form for one custom theme, with a live preview
+const ThemeEditor = (props: {
+  theme: ReaderTheme;
+  onSave: (theme: ReaderTheme) => void;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = createSignal({ ...props.theme });
+
+  const update = <K extends keyof ReaderTheme>(
+    key: K,
+    value: ReaderTheme[K]
+  ) => setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const failingChecks = () =>
+    CONTRAST_CHECKS.map((check) => ({
+      ...check,
+      ratio: contrastRatio(draft()[check.fg], draft()[check.bg]),
+    })).filter((check) => check.ratio < MIN_CONTRAST_RATIO);
+
+  return (
+    <div class="flex flex-col gap-2 rounded-md border p-3">
+      <label class="flex flex-col gap-1 text-sm">
+        <span>الاسم</span>
+        <input
+          value={draft().name}
+          onInput={(e) => update("name", e.currentTarget.value)}
+          class="h-9 rounded-md border border-input bg-background px-2"
+        />
+      </label>
+      <div class="grid grid-cols-2 gap-2">
+        <For each={Object.keys(COLOR_LABELS) as ThemeColor[]}>
+          {(color) => (
+            <label class="flex items-center justify-between gap-2 text-sm">
+              <span>{COLOR_LABELS[color]}</span>
+              <input
+                type="color"
+                value={draft()[color]}
+                onInput={(e) => update(color, e.currentTarget.value)}
+              />
+            </label>
+          )}
+        </For>
+        <label class="flex items-center justify-between gap-2 text-sm">
+          <span>أدوات داكنة</span>
+          <input
+            type="checkbox"
+            checked={draft().dark}
+            onChange={(e) => update("dark", e.currentTarget.checked)}
+          />
+        </label>
+      </div>
+
+      {/* Live Preview */}
+      <div
+        class="reader-surface rounded-md border overflow-hidden text-sm"
+        style={themeVariables(draft())}
+      >
+        <div class="reader-header px-3 py-1">عنوان الفصل</div>
+        <p class="px-3 py-2">
+          هذا نص تجريبي{" "}
+          <span style={{ background: "var(--reader-selection)" }}>
+            لمعاينة التحديد
+          </span>{" "}
+          مع{" "}
+          <a href="#" onclick={(e) => e.preventDefault()}>
+            رابط
+          </a>
+          .
+        </p>
+      </div>
+
+      <Show when={failingChecks().length}>
+        <ul class="text-xs text-destructive">
+          <For each={failingChecks()}>
+            {(check) => (
+              <li>
+                تباين {check.label} منخفض ({check.ratio.toFixed(1)}:1، المطلوب{" "}
+                {MIN_CONTRAST_RATIO}:1)
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+
+      <div class="flex gap-2">
+        <Button
+          size="sm"
+          disabled={!draft().name.trim()}
+          onclick={() =>
+            props.onSave({ ...draft(), name: draft().name.trim() })
+          }
+        >
+          حفظ
+        </Button>
+        <Button size="sm" variant="outline" onclick={props.onCancel}>
+          إلغاء
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+// Theme Settings Component
+const ThemeSettings = (props: {
+  selected: string;
+  customThemes: ReaderTheme[];
+  onSelect: (theme: ReaderTheme) => void;
+  onCustomThemesChange: (themes: ReaderTheme[]) => void;
+  source?: StyleLayer;
+}) => {
+  const [editing, setEditing] = createSignal<ReaderTheme | null>(null);
+
+  // New themes start as a copy of the one in use
+  const createTheme = () =>
+    setEditing({
+      ...findTheme(props.selected, props.customThemes),
+      id: `custom-${Date.now()}`,
+      name: "",
+    });
+
+  const saveTheme = (theme: ReaderTheme) => {
+    const exists = props.customThemes.some((t) => t.id === theme.id);
+    props.onCustomThemesChange(
+      exists
+        ? props.customThemes.map((t) => (t.id === theme.id ? theme : t))
+        : [...props.customThemes, theme]
+    );
+    props.onSelect(theme);
+    setEditing(null);
+  };
+
+  const deleteTheme = (theme: ReaderTheme) => {
+    props.onCustomThemesChange(
+      props.customThemes.filter((t) => t.id !== theme.id)
+    );
+    if (props.selected === theme.id) props.onSelect(BUILT_IN_THEMES[0]);
+  };
+
+  return (
+    <div class="flex flex-col gap-2 w-full">
+      <span class="flex items-center gap-2">
+        <span>الألوان</span>
+        <Show when={props.source}>
+          {(source) => <LayerBadge source={source()} />}
+        </Show>
+      </span>
+      <div class="flex flex-wrap gap-2">
+        <For each={BUILT_IN_THEMES}>
+          {(theme) => (
+            <ThemeSwatch
+              theme={theme}
+              selected={props.selected === theme.id}
+              onSelect={() => props.onSelect(theme)}
+            />
+          )}
+        </For>
+        <For each={props.customThemes}>
+          {(theme) => (
+            <span class="flex items-center">
+              <ThemeSwatch
+                theme={theme}
+                selected={props.selected === theme.id}
+                onSelect={() => props.onSelect(theme)}
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                title="تعديل"
+                onclick={() => setEditing(theme)}
+              >
+                <IoCreate />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                title="حذف"
+                onclick={() => deleteTheme(theme)}
+              >
+                <IoTrash />
+              </Button>
+            </span>
+          )}
+        </For>
+      </div>
+      <Show
+        when={editing()}
+        keyed
+        fallback={
+          <div>
+            <Button size="sm" variant="outline" onclick={createTheme}>
+              ثيم جديد
+            </Button>
+          </div>
+        }
+      >
+        {(theme) => (
+          <ThemeEditor
+            theme={theme}
+            onSave={saveTheme}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+      </Show>
+    </div>
+  );
+};
+
+export default ThemeSettings;
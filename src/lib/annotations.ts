@@ -0,0 +1,300 @@
+import { getItem, setItem } from "./storage";
+import { rangeForOffsets, textOffsetOf } from "./textRange";
+
+export type AnnotationColor = "yellow" | "green" | "blue" | "pink";
+
+export interface Annotation {
+  id: string;
+  chapterUrl: string;
+  chapterTitle: string;
+  // Where the text was: the index of the top-level element inside the
+  // chapter content, and offsets into that element's text content
+  paragraph: number;
+  start: number;
+  end: number;
+  // What the text was, to find it again if the chapter changed since
+  quote: string;
+  prefix: string;
+  suffix: string;
+  color: AnnotationColor;
+  note: string;
+  createdAt: number;
+}
+
+export type AnnotationAnchor = Pick<
+  Annotation,
+  "paragraph" | "start" | "end" | "quote" | "prefix" | "suffix"
+>;
+
+// Swatches match the ::highlight(annotation-*) rules in index.css
+export const ANNOTATION_COLORS: {
+  id: AnnotationColor;
+  name: string;
+  swatch: string;
+}[] = [
+  { id: "yellow", name: "أصفر", swatch: "rgb(250 204 21)" },
+  { id: "green", name: "أخضر", swatch: "rgb(74 222 128)" },
+  { id: "blue", name: "أزرق", swatch: "rgb(96 165 250)" },
+  { id: "pink", name: "وردي", swatch: "rgb(244 114 182)" },
+];
+
+const STORAGE_KEY = "annotations";
+const HIGHLIGHT_PREFIX = "annotation-";
+// Characters of surrounding text kept to tell repeated quotes apart
+const CONTEXT_LENGTH = 32;
+
+/**
+ * Reads the whole novel -> annotations map from storage.
+ */
+function loadAnnotationsMap(): Record<string, Annotation[]> {
+  try {
+    const saved = JSON.parse(getItem(STORAGE_KEY) || "{}");
+    return saved && typeof saved === "object" ? saved : {};
+  } catch (e) {
+    console.error("Failed to load annotations:", e);
+    return {};
+  }
+}
+
+/**
+ * Returns every highlight and note made in a novel.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ */
+export function loadAnnotations(novelUrl: string): Annotation[] {
+  const annotations = loadAnnotationsMap()[novelUrl];
+  return Array.isArray(annotations) ? annotations : [];
+}
+
+/**
+ * Stores the highlights and notes of a novel, replacing the previous ones.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ * @param annotations All of the novel's annotations.
+ */
+export function saveAnnotations(
+  novelUrl: string,
+  annotations: Annotation[]
+): void {
+  const saved = loadAnnotationsMap();
+  if (annotations.length > 0) saved[novelUrl] = annotations;
+  else delete saved[novelUrl];
+  try {
+    setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (e) {
+    console.error("Failed to save annotations:", e);
+  }
+}
+
+/**
+ * Describes selected text in chapter content so it can be found again.
+ * A selection running past its first paragraph is cut at that paragraph's
+ * end.
+ * @param content - The chapter's `.chapter-content` element
+ * @param range - The selected range
+ * @returns The anchor, or null if nothing inside a paragraph is selected
+ */
+export function anchorRange(
+  content: Element,
+  range: Range
+): AnnotationAnchor | null {
+  const paragraphs = Array.from(content.children);
+  const paragraph = paragraphs.findIndex((el) =>
+    el.contains(range.startContainer)
+  );
+  if (paragraph === -1) return null;
+
+  const el = paragraphs[paragraph];
+  const text = el.textContent ?? "";
+  const start = textOffsetOf(el, range.startContainer, range.startOffset);
+  const end = el.contains(range.endContainer)
+    ? textOffsetOf(el, range.endContainer, range.endOffset)
+    : text.length;
+  const quote = text.slice(start, end);
+  if (!quote.trim()) return null;
+
+  return {
+    paragraph,
+    start,
+    end,
+    quote,
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+  };
+}
+
+// How many characters of the saved prefix and suffix still surround a match
+function contextScore(text: string, at: number, anchor: AnnotationAnchor) {
+  let score = 0;
+  for (
+    let i = 1;
+    i <= anchor.prefix.length && text[at - i] === anchor.prefix.at(-i);
+    i++
+  ) {
+    score++;
+  }
+  const after = at + anchor.quote.length;
+  for (
+    let i = 0;
+    i < anchor.suffix.length && text[after + i] === anchor.suffix[i];
+    i++
+  ) {
+    score++;
+  }
+  return score;
+}
+
+/**
+ * Finds anchored text in chapter content. The saved offsets are used while
+ * they still hold the quote; otherwise the quote is searched for across the
+ * chapter, preferring the saved paragraph and the best matching context.
+ * @param content - The chapter's `.chapter-content` element
+ * @param anchor - Where the text was
+ * @returns The text's range, or null if it is no longer in the chapter
+ */
+export function locateAnchor(
+  content: Element,
+  anchor: AnnotationAnchor
+): Range | null {
+  const paragraphs = Array.from(content.children);
+  const expected = paragraphs[anchor.paragraph];
+  const expectedText = expected?.textContent ?? "";
+  if (expectedText.slice(anchor.start, anchor.end) === anchor.quote) {
+    return rangeForOffsets(expected, anchor.start, anchor.end);
+  }
+
+  let best: { el: Element; at: number; score: number } | null = null;
+  for (const el of paragraphs) {
+    const text = el.textContent ?? "";
+    for (
+      let at = text.indexOf(anchor.quote);
+      at !== -1;
+      at = text.indexOf(anchor.quote, at + 1)
+    ) {
+      const score =
+        contextScore(text, at, anchor) + (el === expected ? 1 : 0);
+      if (!best || score > best.score) best = { el, at, score };
+    }
+  }
+  return best
+    ? rangeForOffsets(best.el, best.at, best.at + anchor.quote.length)
+    : null;
+}
+
+/**
+ * Paints annotations with the CSS Custom Highlight API, which leaves the
+ * chapter markup alone.
+ * @param targets - Rendered chapter contents with the annotations made in them
+ * @returns The range each annotation that was found covers, by id
+ */
+export function paintAnnotations(
+  targets: { content: Element; annotations: Annotation[] }[]
+): Map<string, Range> {
+  const ranges = new Map<string, Range>();
+  const byColor = new Map<AnnotationColor, Range[]>();
+  for (const { content, annotations } of targets) {
+    for (const annotation of annotations) {
+      const range = locateAnchor(content, annotation);
+      if (!range) continue;
+      ranges.set(annotation.id, range);
+      byColor.set(annotation.color, [
+        ...(byColor.get(annotation.color) ?? []),
+        range,
+      ]);
+    }
+  }
+
+  if ("highlights" in CSS) {
+    for (const { id } of ANNOTATION_COLORS) {
+      CSS.highlights.set(
+        HIGHLIGHT_PREFIX + id,
+        new Highlight(...(byColor.get(id) ?? []))
+      );
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Removes all painted annotations.
+ */
+export function clearAnnotationPaint(): void {
+  if (!("highlights" in CSS)) return;
+  for (const { id } of ANNOTATION_COLORS) {
+    CSS.highlights.delete(HIGHLIGHT_PREFIX + id);
+  }
+}
+
+/**
+ * Finds the painted annotation under a point on screen.
+ * @param ranges - Ranges as returned by `paintAnnotations`
+ * @returns The annotation's id, or null
+ */
+export function annotationAtPoint(
+  ranges: Map<string, Range>,
+  x: number,
+  y: number
+): string | null {
+  // Firefox and recent Chromium have the standard API, Safari the older one
+  let node: Node | null = null;
+  let offset = 0;
+  if ("caretPositionFromPoint" in document) {
+    const position = document.caretPositionFromPoint(x, y);
+    node = position?.offsetNode ?? null;
+    offset = position?.offset ?? 0;
+  } else {
+    const range = (document as Document).caretRangeFromPoint(x, y);
+    node = range?.startContainer ?? null;
+    offset = range?.startOffset ?? 0;
+  }
+  if (!node) return null;
+
+  for (const [id, range] of ranges) {
+    if (range.isPointInRange(node, offset)) return id;
+  }
+  return null;
+}
+
+/**
+ * Orders annotations as they appear in the novel.
+ * @param chapterOrder - Index of each chapter URL in the chapter list
+ */
+export function sortAnnotations(
+  annotations: Annotation[],
+  chapterOrder: Map<string, number>
+): Annotation[] {
+  const position = (a: Annotation) => chapterOrder.get(a.chapterUrl) ?? -1;
+  return [...annotations].sort(
+    (a, b) =>
+      position(a) - position(b) ||
+      a.paragraph - b.paragraph ||
+      a.start - b.start
+  );
+}
+
+/**
+ * Writes annotations out as Markdown, one section per chapter with each
+ * highlight quoted and its note below it.
+ * @param title - The novel's title
+ * @param annotations - Annotations in reading order
+ */
+export function annotationsToMarkdown(
+  title: string,
+  annotations: Annotation[]
+): string {
+  const lines = [`# ${title}`];
+  let chapterUrl: string | null = null;
+  for (const annotation of annotations) {
+    if (annotation.chapterUrl !== chapterUrl) {
+      chapterUrl = annotation.chapterUrl;
+      lines.push("", `## ${annotation.chapterTitle}`);
+    }
+    lines.push(
+      "",
+      ...annotation.quote
+        .trim()
+        .split("\n")
+        .map((line) => `> ${line}`)
+    );
+    if (annotation.note.trim()) lines.push("", annotation.note.trim());
+  }
+  return lines.join("\n") + "\n";
+}
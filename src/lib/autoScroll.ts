@@ -0,0 +1,162 @@
+export type AutoScrollState = "idle" | "running" | "paused";
+export type AutoScrollUnit = "pixels" | "words";
+
+interface AutoScrollCallbacks {
+  onStateChange: (state: AutoScrollState) => void;
+  /** Current speed in pixels per second, read every frame. */
+  getSpeed: () => number;
+  /** Whether more content may still load below the end of the page. */
+  canLoadMore: () => boolean;
+}
+
+// How long to wait after a touch ends before scrolling again
+const TOUCH_RESUME_DELAY_MS = 1500;
+
+/**
+ * Scrolls the window at a steady speed. Holding a touch, or hovering over the
+ * text if asked to, holds it until released; pressing a key pauses it.
+ */
+export class AutoScroller {
+  private state: AutoScrollState = "idle";
+  private frame: number | null = null;
+  private lastTimestamp: number | null = null;
+  // Sub-pixel distance not yet scrolled, so slow speeds still move
+  private remainder = 0;
+  private holds = new Set<"touch" | "hover">();
+  private touchTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * @param callbacks - Hooks into the reader
+   * @param hoverTarget - Element that holds scrolling while hovered, if any
+   */
+  constructor(
+    private readonly callbacks: AutoScrollCallbacks,
+    private readonly hoverTarget: HTMLElement | null
+  ) {}
+
+  public start(): void {
+    if (this.state === "running") return;
+    if (this.state === "idle") {
+      this.addListeners();
+      // mouseenter won't fire if the pointer is already resting on the text
+      if (this.hoverTarget?.matches(":hover")) this.hold("hover");
+    }
+    this.setState("running");
+    this.requestFrame();
+  }
+
+  public pause(): void {
+    if (this.state !== "running") return;
+    this.cancelFrame();
+    this.setState("paused");
+  }
+
+  public stop(): void {
+    if (this.state === "idle") return;
+    this.cancelFrame();
+    this.removeListeners();
+    this.holds.clear();
+    this.setState("idle");
+  }
+
+  public toggle(): void {
+    if (this.state === "running") this.pause();
+    else this.start();
+  }
+
+  private setState(state: AutoScrollState): void {
+    this.state = state;
+    this.callbacks.onStateChange(state);
+  }
+
+  private requestFrame(): void {
+    if (this.frame === null) {
+      this.frame = requestAnimationFrame(this.step);
+    }
+  }
+
+  private cancelFrame(): void {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.lastTimestamp = null;
+  }
+
+  private step = (timestamp: number) => {
+    this.frame = null;
+    if (this.state !== "running") return;
+
+    // Skip the first frame so a long gap (e.g. a background tab) can't jump
+    const elapsed =
+      this.lastTimestamp === null
+        ? 0
+        : (timestamp - this.lastTimestamp) / 1000;
+    this.lastTimestamp = timestamp;
+
+    if (this.holds.size === 0) {
+      this.remainder += this.callbacks.getSpeed() * Math.min(elapsed, 0.1);
+      const distance = Math.floor(this.remainder);
+      if (distance > 0) {
+        this.remainder -= distance;
+        window.scrollBy({ top: distance, behavior: "instant" });
+      }
+
+      const atBottom =
+        window.innerHeight + window.scrollY >=
+        document.documentElement.scrollHeight - 1;
+      if (atBottom && !this.callbacks.canLoadMore()) {
+        this.stop();
+        return;
+      }
+    }
+    this.requestFrame();
+  };
+
+  private hold(reason: "touch" | "hover"): void {
+    this.holds.add(reason);
+  }
+
+  private release(reason: "touch" | "hover"): void {
+    this.holds.delete(reason);
+  }
+
+  private handleTouchStart = () => {
+    clearTimeout(this.touchTimer);
+    this.hold("touch");
+  };
+
+  private handleTouchEnd = () => {
+    clearTimeout(this.touchTimer);
+    this.touchTimer = setTimeout(
+      () => this.release("touch"),
+      TOUCH_RESUME_DELAY_MS
+    );
+  };
+
+  private handleMouseEnter = () => this.hold("hover");
+
+  private handleMouseLeave = () => this.release("hover");
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (event.repeat) return;
+    this.pause();
+  };
+
+  private addListeners(): void {
+    window.addEventListener("touchstart", this.handleTouchStart);
+    window.addEventListener("touchend", this.handleTouchEnd);
+    window.addEventListener("touchcancel", this.handleTouchEnd);
+    window.addEventListener("keydown", this.handleKeyDown);
+    this.hoverTarget?.addEventListener("mouseenter", this.handleMouseEnter);
+    this.hoverTarget?.addEventListener("mouseleave", this.handleMouseLeave);
+  }
+
+  private removeListeners(): void {
+    clearTimeout(this.touchTimer);
+    window.removeEventListener("touchstart", this.handleTouchStart);
+    window.removeEventListener("touchend", this.handleTouchEnd);
+    window.removeEventListener("touchcancel", this.handleTouchEnd);
+    window.removeEventListener("keydown", this.handleKeyDown);
+    this.hoverTarget?.removeEventListener("mouseenter", this.handleMouseEnter);
+    this.hoverTarget?.removeEventListener("mouseleave", this.handleMouseLeave);
+  }
+}
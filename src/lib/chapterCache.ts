@@ -0,0 +1,206 @@
+import type { ChapterData } from "~/types";
+
+interface CachedChapter {
+  url: string; // Chapter URL the data was fetched from
+  novelUrl: string;
+  data: ChapterData;
+  size: number; // Approximate size in bytes
+  lastAccessed: number;
+}
+
+export interface CachedNovel {
+  novelUrl: string;
+  chapterCount: number;
+  size: number;
+}
+
+const DB_NAME = "chapterReader";
+// Bumping the version drops every cached chapter, e.g. when the way content
+// is cleaned up before storing changes
+const DB_VERSION = 2;
+const STORE_NAME = "chapters";
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the cache database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (db.objectStoreNames.contains(STORE_NAME)) {
+        db.deleteObjectStore(STORE_NAME);
+      }
+      const store = db.createObjectStore(STORE_NAME, {
+        keyPath: "url",
+      });
+      store.createIndex("novelUrl", "novelUrl");
+      store.createIndex("lastAccessed", "lastAccessed");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later call to try again if opening failed (e.g. private mode)
+  dbPromise.catch(() => (dbPromise = null));
+  return dbPromise;
+}
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+/**
+ * Returns a cached chapter and marks it as recently used.
+ * @param url The chapter URL.
+ */
+export async function getCachedChapter(
+  url: string
+): Promise<ChapterData | null> {
+  try {
+    const store = await getStore("readwrite");
+    const entry: CachedChapter | undefined = await promisify(store.get(url));
+    if (!entry) return null;
+
+    entry.lastAccessed = Date.now();
+    store.put(entry);
+    return entry.data;
+  } catch (e) {
+    console.error("Failed to read chapter cache:", e);
+    return null;
+  }
+}
+
+/**
+ * Stores a parsed chapter, evicting the least recently used chapters once the
+ * cache grows past its size cap.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ * @param url The chapter URL.
+ * @param data The parsed chapter.
+ */
+export async function cacheChapter(
+  novelUrl: string,
+  url: string,
+  data: ChapterData
+): Promise<void> {
+  try {
+    const store = await getStore("readwrite");
+    const entry: CachedChapter = {
+      url,
+      novelUrl,
+      data,
+      // Strings are UTF-16 in memory, which is close enough for a budget
+      size: (data.content.length + data.title.length + url.length) * 2,
+      lastAccessed: Date.now(),
+    };
+    await promisify(store.put(entry));
+    await evictLeastRecentlyUsed();
+  } catch (e) {
+    console.error("Failed to write chapter cache:", e);
+  }
+}
+
+/**
+ * Deletes the oldest chapters until the cache fits in MAX_CACHE_BYTES.
+ */
+async function evictLeastRecentlyUsed(): Promise<void> {
+  const store = await getStore("readwrite");
+  const entries: CachedChapter[] = await promisify(
+    store.index("lastAccessed").getAll()
+  );
+
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries) {
+    if (total <= MAX_CACHE_BYTES) break;
+    store.delete(entry.url);
+    total -= entry.size;
+  }
+}
+
+/**
+ * Returns every cached chapter of a novel, without marking them as used.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ */
+export async function getCachedNovelChapters(
+  novelUrl: string
+): Promise<{ url: string; data: ChapterData }[]> {
+  try {
+    const store = await getStore("readonly");
+    const entries: CachedChapter[] = await promisify(
+      store.index("novelUrl").getAll(IDBKeyRange.only(novelUrl))
+    );
+    return entries.map(({ url, data }) => ({ url, data }));
+  } catch (e) {
+    console.error("Failed to read cached novel:", e);
+    return [];
+  }
+}
+
+/**
+ * Lists every novel with chapters in the cache.
+ */
+export async function listCachedNovels(): Promise<CachedNovel[]> {
+  try {
+    const store = await getStore("readonly");
+    const entries: CachedChapter[] = await promisify(store.getAll());
+
+    const novels = new Map<string, CachedNovel>();
+    for (const entry of entries) {
+      const novel = novels.get(entry.novelUrl) ?? {
+        novelUrl: entry.novelUrl,
+        chapterCount: 0,
+        size: 0,
+      };
+      novel.chapterCount++;
+      novel.size += entry.size;
+      novels.set(entry.novelUrl, novel);
+    }
+    return Array.from(novels.values());
+  } catch (e) {
+    console.error("Failed to list chapter cache:", e);
+    return [];
+  }
+}
+
+/**
+ * Removes every cached chapter of a novel.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ */
+export async function clearCachedNovel(novelUrl: string): Promise<void> {
+  try {
+    const store = await getStore("readwrite");
+    const keys = await promisify(
+      store.index("novelUrl").getAllKeys(IDBKeyRange.only(novelUrl))
+    );
+    keys.forEach((key) => store.delete(key));
+  } catch (e) {
+    console.error("Failed to clear cached novel:", e);
+  }
+}
+
+/**
+ * Removes every cached chapter.
+ */
+export async function clearChapterCache(): Promise<void> {
+  try {
+    const store = await getStore("readwrite");
+    await promisify(store.clear());
+  } catch (e) {
+    console.error("Failed to clear chapter cache:", e);
+  }
+}
@@ -0,0 +1,293 @@
+import type { ChapterData, NovelMetadata } from "~/types";
+import { createZip, type ZipEntry } from "./zip";
+
+interface EpubImage {
+  id: string;
+  path: string; // Relative to OEBPS/
+  mediaType: string;
+  data: Uint8Array;
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
+const STYLESHEET = `body { direction: rtl; text-align: right; line-height: 1.7; }
+h1 { font-size: 1.4em; margin-bottom: 1em; }
+img { max-width: 100%; height: auto; }
+`;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const chapterPath = (index: number) =>
+  `text/chapter-${String(index + 1).padStart(4, "0")}.xhtml`;
+
+/**
+ * Downloads images referenced by the book and hands out their paths inside
+ * the archive. Each URL is only fetched once.
+ */
+class ImageCollector {
+  public readonly images: EpubImage[] = [];
+  private byUrl = new Map<string, Promise<EpubImage | null>>();
+
+  public add(url: string): Promise<EpubImage | null> {
+    let image = this.byUrl.get(url);
+    if (!image) {
+      image = this.download(url);
+      this.byUrl.set(url, image);
+    }
+    return image;
+  }
+
+  private async download(url: string): Promise<EpubImage | null> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const mediaType = (response.headers.get("content-type") ?? "")
+        .split(";")[0]
+        .trim();
+      const extension = IMAGE_EXTENSIONS[mediaType];
+      if (!extension) throw new Error(`Unsupported image type "${mediaType}"`);
+
+      const id = `image-${this.images.length + 1}`;
+      const image: EpubImage = {
+        id,
+        path: `images/${id}.${extension}`,
+        mediaType,
+        data: new Uint8Array(await response.arrayBuffer()),
+      };
+      this.images.push(image);
+      return image;
+    } catch (e) {
+      // Usually a cross-origin image without CORS headers
+      console.warn("Could not embed image, leaving it out:", url, e);
+      return null;
+    }
+  }
+}
+
+/**
+ * Turns chapter HTML into XHTML body markup, embedding its images.
+ */
+async function chapterToXhtml(
+  chapter: ChapterData,
+  language: string,
+  images: ImageCollector
+): Promise<string> {
+  const doc = new DOMParser().parseFromString(chapter.content, "text/html");
+
+  for (const img of Array.from(doc.querySelectorAll("img"))) {
+    const src = img.getAttribute("src");
+    const image = src ? await images.add(new URL(src, chapter.uri).href) : null;
+    if (image) {
+      img.setAttribute("src", `../${image.path}`);
+      img.setAttribute("alt", img.getAttribute("alt") ?? "");
+    } else {
+      img.replaceWith(img.getAttribute("alt") ?? "");
+    }
+  }
+
+  const serializer = new XMLSerializer();
+  const body = Array.from(doc.body.childNodes)
+    .map((node) => serializer.serializeToString(node))
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}" dir="rtl">
+<head>
+  <title>${escapeXml(chapter.title)}</title>
+  <link rel="stylesheet" type="text/css" href="../style.css" />
+</head>
+<body>
+  <h1>${escapeXml(chapter.title)}</h1>
+  ${body}
+</body>
+</html>`;
+}
+
+function buildPackage(
+  metadata: NovelMetadata,
+  title: string,
+  identifier: string,
+  chapters: ChapterData[],
+  images: EpubImage[],
+  cover: EpubImage | null
+): string {
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const optional = (tag: string, value: string | null) =>
+    value ? `\n    <${tag}>${escapeXml(value)}</${tag}>` : "";
+
+  const chapterItems = chapters
+    .map(
+      (_, i) =>
+        `    <item id="chapter-${i + 1}" href="${chapterPath(i)}" media-type="application/xhtml+xml" />`
+    )
+    .join("\n");
+  const imageItems = images
+    .map(
+      (image) =>
+        `    <item id="${image.id}" href="${image.path}" media-type="${image.mediaType}"${
+          image === cover ? ' properties="cover-image"' : ""
+        } />`
+    )
+    .join("\n");
+  const spine = chapters
+    .map((_, i) => `    <itemref idref="chapter-${i + 1}" />`)
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${metadata.language}" dir="rtl">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>${metadata.language}</dc:language>${optional(
+      "dc:creator",
+      metadata.author
+    )}${optional("dc:description", metadata.description)}
+    <dc:source>${escapeXml(metadata.url)}</dc:source>
+    <meta property="dcterms:modified">${modified}</meta>${
+      cover ? `\n    <meta name="cover" content="${cover.id}" />` : ""
+    }
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml" />
+    <item id="style" href="style.css" media-type="text/css" />
+${chapterItems}
+${imageItems}
+  </manifest>
+  <spine toc="ncx" page-progression-direction="rtl">
+${spine}
+  </spine>
+</package>`;
+}
+
+function buildNav(metadata: NovelMetadata, chapters: ChapterData[]): string {
+  const items = chapters
+    .map(
+      (chapter, i) =>
+        `      <li><a href="${chapterPath(i)}">${escapeXml(chapter.title)}</a></li>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${metadata.language}" lang="${metadata.language}" dir="rtl">
+<head>
+  <title>${escapeXml(metadata.title)}</title>
+</head>
+<body>
+  <nav epub:type="toc" id="toc">
+    <h1>المحتويات</h1>
+    <ol>
+${items}
+    </ol>
+  </nav>
+</body>
+</html>`;
+}
+
+// EPUB 2 table of contents, still read by many e-ink devices
+function buildNcx(
+  title: string,
+  identifier: string,
+  chapters: ChapterData[]
+): string {
+  const points = chapters
+    .map(
+      (chapter, i) => `    <navPoint id="nav-${i + 1}" playOrder="${i + 1}">
+      <navLabel><text>${escapeXml(chapter.title)}</text></navLabel>
+      <content src="${chapterPath(i)}" />
+    </navPoint>`
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(identifier)}" />
+  </head>
+  <docTitle><text>${escapeXml(title)}</text></docTitle>
+  <navMap>
+${points}
+  </navMap>
+</ncx>`;
+}
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>`;
+
+/**
+ * Packs chapters into an EPUB 3 book with right-to-left page progression.
+ * @param metadata - Details of the novel the chapters belong to
+ * @param chapters - The chapters, in reading order
+ * @returns The .epub file
+ */
+export async function buildEpub(
+  metadata: NovelMetadata,
+  chapters: ChapterData[]
+): Promise<Blob> {
+  const first = chapters[0];
+  const last = chapters[chapters.length - 1];
+  const title =
+    chapters.length > 1
+      ? `${metadata.title} (${first.title} - ${last.title})`
+      : `${metadata.title} (${first.title})`;
+  const identifier = `${metadata.url}#${first.id}-${last.id}`;
+
+  const images = new ImageCollector();
+  const cover = metadata.coverUrl ? await images.add(metadata.coverUrl) : null;
+
+  const chapterFiles: ZipEntry[] = [];
+  for (const [i, chapter] of chapters.entries()) {
+    chapterFiles.push({
+      path: `OEBPS/${chapterPath(i)}`,
+      data: await chapterToXhtml(chapter, metadata.language, images),
+    });
+  }
+
+  return new Blob(
+    [
+      createZip([
+        // Must come first and uncompressed, readers sniff it
+        { path: "mimetype", data: "application/epub+zip" },
+        { path: "META-INF/container.xml", data: CONTAINER_XML },
+        {
+          path: "OEBPS/content.opf",
+          data: buildPackage(
+            metadata,
+            title,
+            identifier,
+            chapters,
+            images.images,
+            cover
+          ),
+        },
+        { path: "OEBPS/nav.xhtml", data: buildNav(metadata, chapters) },
+        { path: "OEBPS/toc.ncx", data: buildNcx(title, identifier, chapters) },
+        { path: "OEBPS/style.css", data: STYLESHEET },
+        ...chapterFiles,
+        ...images.images.map((image) => ({
+          path: `OEBPS/${image.path}`,
+          data: image.data,
+        })),
+      ]),
+    ],
+    { type: "application/epub+zip" }
+  );
+}
@@ -0,0 +1,47 @@
+import type { Chapter, ChapterData } from "~/types";
+import type { ChapterFetchError, ChapterFetchResult } from "./fetch";
+import type { Result } from "./utils";
+
+export interface RangeFetchError {
+  chapter: Chapter;
+  error: ChapterFetchError;
+}
+
+/**
+ * Fetches a run of chapters one after the other, stopping at the first one
+ * that fails so the export never silently skips a chapter.
+ * @param chapters - The chapters to fetch, in reading order
+ * @param fetcher - Fetches a single chapter (through the cache)
+ * @param onProgress - Called after every chapter with the number done so far
+ */
+export async function fetchChapterRange(
+  chapters: Chapter[],
+  fetcher: (chapter: Chapter) => Promise<ChapterFetchResult>,
+  onProgress: (done: number, total: number) => void
+): Promise<Result<ChapterData[], RangeFetchError>> {
+  const fetched: ChapterData[] = [];
+
+  for (const chapter of chapters) {
+    const { data, error } = await fetcher(chapter);
+    if (error) return { data: null, error: { chapter, error } };
+
+    fetched.push(data);
+    onProgress(fetched.length, chapters.length);
+  }
+  return { data: fetched, error: null };
+}
+
+/**
+ * Saves a generated file through the browser's download prompt.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.replace(/[\\/:*?"<>|]+/g, "_");
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
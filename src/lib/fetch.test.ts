@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { isChallengePage } from "./fetch";
+
+describe("isChallengePage", () => {
+  it("recognises Cloudflare interstitials", () => {
+    expect(
+      isChallengePage(
+        '<html><head><title>Just a moment...</title></head><body><script>window._cf_chl_opt={cvId:"3"};</script></body></html>'
+      )
+    ).toBe(true);
+    expect(
+      isChallengePage(
+        '<html><body><form id="challenge-form" action="/?__cf_chl_f_tk=x" method="POST"></form></body></html>'
+      )
+    ).toBe(true);
+  });
+
+  it("ignores Cloudflare scripts on ordinary pages", () => {
+    expect(
+      isChallengePage(
+        '<html><head><title>الفصل 12</title></head><body><div class="text-right"><p>نص</p></div><script src="/cdn-cgi/challenge-platform/scripts/jsd/main.js"></script><div class="cf-turnstile" data-sitekey="x"></div></body></html>'
+      )
+    ).toBe(false);
+  });
+});
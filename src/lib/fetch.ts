@@ -1,76 +1,205 @@
-interface ChapterData {
-    id: number;
-    uri: string;
-    title: string;
-    content: string;
+import type { SiteAdapter } from "~/sites";
+import type { ChapterData, NovelMetadata } from "~/types";
+import { cacheChapter, getCachedChapter } from "./chapterCache";
+import { type ChapterDiagnostics, hasMissingContent } from "./parseChapter";
+import { sanitizeChapterHtml } from "./sanitize";
+import { type Result, tryCatch } from "./utils";
+
+export type ChapterFetchErrorKind =
+    | "not-found" // 404, the chapter is gone
+    | "forbidden" // 403 without a recognisable challenge page
+    | "challenge" // A bot-challenge page the user has to pass in a browser tab
+    | "server" // 5xx or 429, worth retrying
+    | "http" // Any other failed status
+    | "network" // The request never got a response
+    | "parse" // The page loaded but had no chapter content
+    | "aborted"; // Cancelled by the caller
+
+export interface ChapterFetchError {
+    kind: ChapterFetchErrorKind;
+    url: string;
+    status?: number;
+    diagnostics?: ChapterDiagnostics; // Set for "parse" errors
 }
 
+export type ChapterFetchResult = Result<ChapterData, ChapterFetchError>;
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const TRANSIENT_ERRORS: ChapterFetchErrorKind[] = ["server", "network"];
+// Only found on the interstitial itself. Cloudflare's challenge-platform
+// script and Turnstile widgets also show up on ordinary protected pages.
+const CHALLENGE_MARKERS = [
+    "cf-browser-verification",
+    "cf_chl_opt",
+    'id="challenge-form"',
+    "<title>Just a moment...</title>",
+    "<title>Attention Required! | Cloudflare</title>",
+];
+// Statuses a challenge is served with; a 200 is always the real page
+const CHALLENGE_STATUSES = [403, 503];
+
+/**
+ * Whether a page is a bot-challenge / "checking your browser" interstitial
+ * rather than the page that was asked for.
+ */
+export function isChallengePage(html: string): boolean {
+    return CHALLENGE_MARKERS.some((marker) => html.includes(marker));
+}
 
 export const fetchChapter = async ({
     url,
-    title
+    title,
+    novelUrl,
+    adapter,
+    signal
 }: {
     url: string;
-    title: string
-}) => {
-    const response = await fetch(url);
-    if (response.ok) {
-        const html = await response.text();
-        const doc = new DOMParser().parseFromString(html, "text/html");
-        const data = extractChapterData(doc, url);
-        return {
-            id: data.id,
-            uri: data.uri,
-            title: data.title,
-            content: data.content,
-        };
-    } else if (response.status === 404) {
-        console.error("Failed to fetch chapter:", title);
-        return null;
-    } else if (response.status === 403) {
-        location.href = url // Redirect to the original URL
-        console.error("Failed to fetch chapter:", title);
-        return null;
-    } else {
-        console.error("Failed to fetch chapter:", title);
-        return null;
+    title: string;
+    novelUrl: string;
+    adapter: SiteAdapter;
+    signal?: AbortSignal
+}): Promise<ChapterFetchResult> => {
+    const cached = await getCachedChapter(url);
+    if (cached) return { data: cached, error: null };
+
+    let result = await fetchChapterOnce(url, adapter, signal);
+    for (
+        let attempt = 0;
+        attempt < MAX_RETRIES &&
+        result.error &&
+        TRANSIENT_ERRORS.includes(result.error.kind);
+        attempt++
+    ) {
+        // Exponential backoff: 1s, 2s, 4s
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        console.warn(`Retrying chapter "${title}" in ${delay}ms:`, result.error);
+        if (!(await wait(delay, signal))) {
+            return { data: null, error: { kind: "aborted", url } };
+        }
+        result = await fetchChapterOnce(url, adapter, signal);
+    }
+
+    if (result.error) {
+        if (result.error.kind !== "aborted") {
+            console.error("Failed to fetch chapter:", title, result.error);
+        }
+        return result;
     }
+
+    // Don't let a slow or failing cache write hold up rendering
+    cacheChapter(novelUrl, url, result.data);
+    return result;
 };
 
 
-function extractChapterData(doc: Document, uri: string): ChapterData {
-    const bookmarkButton = doc.querySelector<HTMLAnchorElement>(
-        'a.wp-manga-action-button[data-action="bookmark"]'
+/**
+ * Makes a single request for a chapter page and parses it.
+ */
+async function fetchChapterOnce(
+    url: string,
+    adapter: SiteAdapter,
+    signal?: AbortSignal
+): Promise<ChapterFetchResult> {
+    const { data: response, error } = await tryCatch(
+        fetch(url, { ...adapter.fetchOptions, signal })
     );
-    const chapterIdStr = bookmarkButton?.getAttribute("data-chapter");
-    const chapterId = chapterIdStr
-        ? Number(chapterIdStr)
-        : Number(
-            doc
-                .querySelector<HTMLAnchorElement>("#wp-manga-current-chap")
-                ?.getAttribute("data-id")
-        ); // Parse ID, handle missing attribute
-
-    const title =
-        doc.querySelector("#chapter-heading")?.textContent?.trim() ??
-        "Chapter Title Missing";
-    const content =
-        doc.querySelector(".text-right")?.innerHTML ?? // Adjusted selector based on common Madara themes, verify this!
-        doc.querySelector(".reading-content .entry-content")?.innerHTML ?? // Another common selector
-        doc.querySelector(".text-left")?.innerHTML ?? // Original fallback selector
-        "<p>Error: Chapter content not found.</p>"; // Default if content missing
-
-    if (chapterId === null) {
-        console.warn("Could not extract chapter ID from bookmark button.");
+    if (error) {
+        const kind = signal?.aborted ? "aborted" : "network";
+        return { data: null, error: { kind, url } };
+    }
+
+    const { data: html } = await tryCatch(response.text());
+    if (html === null) {
+        const kind = signal?.aborted ? "aborted" : "network";
+        return { data: null, error: { kind, url } };
+    }
+
+    if (CHALLENGE_STATUSES.includes(response.status) && isChallengePage(html)) {
+        return { data: null, error: { kind: "challenge", url, status: response.status } };
     }
-    if (content.includes("Error: Chapter content not found.")) {
-        console.warn("Could not extract chapter content from expected selectors.");
+
+    if (!response.ok) {
+        return {
+            data: null,
+            error: { kind: errorKindForStatus(response.status), url, status: response.status },
+        };
+    }
+
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    const { chapter, diagnostics } = adapter.parseChapter(doc, url);
+    if (hasMissingContent(diagnostics)) {
+        return {
+            data: null,
+            error: { kind: "parse", url, status: response.status, diagnostics },
+        };
+    }
+    const { html: content, removed } = sanitizeChapterHtml(chapter.content);
+    return {
+        data: {
+            ...chapter,
+            content,
+            sanitizeReport: removed,
+            diagnostics,
+        },
+        error: null,
+    };
+}
+
+
+function errorKindForStatus(status: number): ChapterFetchErrorKind {
+    if (status === 404 || status === 410) return "not-found";
+    if (status === 403) return "forbidden";
+    if (status >= 500 || status === 429) return "server";
+    return "http";
+}
+
+
+/**
+ * Resolves after `ms`, or early with `false` if the signal aborts.
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<boolean> {
+    return new Promise((resolve) => {
+        if (signal?.aborted) return resolve(false);
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve(true);
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            resolve(false);
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+
+/**
+ * Fetches a novel's page and extracts its details. Falls back to what can be
+ * told from the URL alone, so an export never fails just for metadata.
+ */
+export async function fetchNovelMetadata(
+    novelUrl: string,
+    adapter: SiteAdapter
+): Promise<NovelMetadata> {
+    const { data: response } = await tryCatch(fetch(novelUrl, adapter.fetchOptions));
+    const { data: html } = response?.ok
+        ? await tryCatch(response.text())
+        : { data: null };
+
+    if (html && !isChallengePage(html)) {
+        const doc = new DOMParser().parseFromString(html, "text/html");
+        return adapter.extractNovelMetadata(doc, novelUrl);
     }
 
+    console.warn("Could not load novel page for metadata:", novelUrl);
+    const slug = new URL(novelUrl).pathname.split("/").filter(Boolean).pop();
     return {
-        id: chapterId,
-        uri, // Current page URI
-        title: title,
-        content: content,
+        url: novelUrl,
+        title: slug ? decodeURIComponent(slug) : novelUrl,
+        author: null,
+        description: null,
+        coverUrl: null,
+        language: adapter.language,
     };
 }
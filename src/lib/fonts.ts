@@ -0,0 +1,222 @@
+import type { Result } from "./utils";
+
+export interface FontOption {
+  id: string;
+  name: string;
+  stack: string; // CSS font-family value
+  /** Google Fonts family to load the first time the font is shown. */
+  webFont?: string;
+  uploaded?: boolean;
+}
+
+interface StoredFont {
+  id: string;
+  name: string;
+  data: ArrayBuffer;
+  addedAt: number;
+}
+
+export type FontUploadError = "unsupported-type" | "invalid-font" | "storage";
+
+// Arabic-friendly stacks: a web font first, then common system fonts with
+// Arabic coverage, then the generic family
+export const FONT_OPTIONS: FontOption[] = [
+  {
+    id: "naskh",
+    name: "نسخ",
+    stack: '"Noto Naskh Arabic", "Traditional Arabic", "Times New Roman", serif',
+    webFont: "Noto Naskh Arabic",
+  },
+  {
+    id: "amiri",
+    name: "أميري",
+    stack: '"Amiri", "Traditional Arabic", "Times New Roman", serif',
+    webFont: "Amiri",
+  },
+  {
+    id: "scheherazade",
+    name: "شهرزاد",
+    stack: '"Scheherazade New", "Traditional Arabic", serif',
+    webFont: "Scheherazade New",
+  },
+  {
+    id: "kufi",
+    name: "كوفي",
+    stack: '"Noto Kufi Arabic", "Droid Arabic Kufi", Tahoma, sans-serif',
+    webFont: "Noto Kufi Arabic",
+  },
+  {
+    id: "tajawal",
+    name: "تجوال",
+    stack: '"Tajawal", "Segoe UI", Tahoma, sans-serif',
+    webFont: "Tajawal",
+  },
+  {
+    id: "cairo",
+    name: "القاهرة",
+    stack: '"Cairo", "Segoe UI", Tahoma, sans-serif',
+    webFont: "Cairo",
+  },
+  {
+    id: "system",
+    name: "خط النظام",
+    stack: 'system-ui, "Segoe UI", Tahoma, "Geeza Pro", sans-serif',
+  },
+  { id: "serif", name: "سيريف", stack: "serif" },
+  { id: "sans", name: "سانس", stack: "sans-serif" },
+  { id: "mono", name: "مونو", stack: "monospace" },
+];
+
+export const FONT_SAMPLE_TEXT = "أبجد هوز حطي كلمن سعفص قرشت";
+
+const FONT_EXTENSIONS = [".ttf", ".otf", ".woff", ".woff2"];
+const DB_NAME = "chapterReaderFonts";
+const DB_VERSION = 1;
+const STORE_NAME = "fonts";
+
+const loadedWebFonts = new Set<string>();
+const registeredFonts = new Map<string, FontFace>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use creates) the uploaded font database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => (dbPromise = null));
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+  const db = await openDatabase();
+  return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+}
+
+// Family name an uploaded font is registered under
+const uploadedFamily = (id: string) => `reader-font-${id}`;
+
+const toOption = (font: StoredFont): FontOption => ({
+  id: font.id,
+  name: font.name,
+  stack: `"${uploadedFamily(font.id)}", sans-serif`,
+  uploaded: true,
+});
+
+/**
+ * Finds a font by id, falling back to the first curated stack.
+ * @param id - The id saved in the user's style
+ * @param uploadedFonts - Fonts returned by `registerUploadedFonts`
+ */
+export function findFont(id: string, uploadedFonts: FontOption[]): FontOption {
+  return (
+    [...FONT_OPTIONS, ...uploadedFonts].find((font) => font.id === id) ??
+    FONT_OPTIONS[0]
+  );
+}
+
+/**
+ * Adds the Google Fonts stylesheet for a curated font, once.
+ */
+export function loadWebFont(font: FontOption): void {
+  if (!font.webFont || loadedWebFonts.has(font.webFont)) return;
+  loadedWebFonts.add(font.webFont);
+
+  const link = document.createElement("link");
+  link.rel = "stylesheet";
+  link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(
+    font.webFont
+  )}:wght@400;700&display=swap`;
+  document.head.appendChild(link);
+}
+
+/**
+ * Registers every uploaded font with the document so it can be used by name.
+ * @returns The uploaded fonts as font options
+ */
+export async function registerUploadedFonts(): Promise<FontOption[]> {
+  try {
+    const store = await getStore("readonly");
+    const fonts: StoredFont[] = await promisify(store.getAll());
+    fonts.sort((a, b) => a.addedAt - b.addedAt);
+
+    for (const font of fonts) {
+      if (registeredFonts.has(font.id)) continue;
+      const face = new FontFace(uploadedFamily(font.id), font.data);
+      document.fonts.add(face);
+      registeredFonts.set(font.id, face);
+    }
+    return fonts.map(toOption);
+  } catch (e) {
+    console.error("Failed to load uploaded fonts:", e);
+    return [];
+  }
+}
+
+/**
+ * Checks that a file is a usable font and stores it.
+ * @param file - A TTF, OTF, WOFF or WOFF2 file
+ */
+export async function saveUploadedFont(
+  file: File
+): Promise<Result<FontOption, FontUploadError>> {
+  const name = file.name.replace(/\.[^.]+$/, "");
+  const extension = file.name.slice(name.length).toLowerCase();
+  if (!FONT_EXTENSIONS.includes(extension)) {
+    return { data: null, error: "unsupported-type" };
+  }
+
+  const font: StoredFont = {
+    id: `font-${Date.now()}`,
+    name,
+    data: await file.arrayBuffer(),
+    addedAt: Date.now(),
+  };
+
+  try {
+    // Parsing it here rejects files that only look like fonts
+    await new FontFace(uploadedFamily(font.id), font.data).load();
+  } catch (e) {
+    console.warn("Uploaded file is not a valid font:", file.name, e);
+    return { data: null, error: "invalid-font" };
+  }
+
+  try {
+    const store = await getStore("readwrite");
+    await promisify(store.put(font));
+  } catch (e) {
+    console.error("Failed to store uploaded font:", e);
+    return { data: null, error: "storage" };
+  }
+  return { data: toOption(font), error: null };
+}
+
+/**
+ * Removes an uploaded font from storage and from the document.
+ */
+export async function deleteUploadedFont(id: string): Promise<void> {
+  try {
+    const store = await getStore("readwrite");
+    await promisify(store.delete(id));
+    const face = registeredFonts.get(id);
+    if (face) document.fonts.delete(face);
+    registeredFonts.delete(id);
+  } catch (e) {
+    console.error("Failed to delete uploaded font:", e);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { htmlToText } from "./markdown";
+
+describe("htmlToText", () => {
+  it("escapes Markdown syntax in chapter text", () => {
+    expect(
+      htmlToText("<p>*تنهد* قال: [مهم] 2_3 `x`</p>", "markdown")
+    ).toBe("\\*تنهد\\* قال: \\[مهم\\] 2\\_3 \\`x\\`");
+  });
+
+  it("escapes text that would start a block", () => {
+    expect(
+      htmlToText(
+        "<p># ليس عنوانا</p><p>> ليس اقتباسا</p><p>- ليس قائمة</p><p>1. ليس ترقيما</p><p>---</p>",
+        "markdown"
+      )
+    ).toBe(
+      "\\# ليس عنوانا\n\n\\> ليس اقتباسا\n\n\\- ليس قائمة\n\n1\\. ليس ترقيما\n\n\\---"
+    );
+  });
+
+  it("keeps the formatting it adds itself", () => {
+    expect(
+      htmlToText(
+        "<h2>الفصل *1*</h2><p><strong>قوي</strong> و<code>a*b</code></p><ul><li>بند</li></ul>",
+        "markdown"
+      )
+    ).toBe("### الفصل \\*1\\*\n\n**قوي** و`a*b`\n\n- بند");
+  });
+
+  it("leaves plain text alone", () => {
+    expect(htmlToText("<p># *نص* عادي</p>", "text")).toBe("# *نص* عادي");
+  });
+});
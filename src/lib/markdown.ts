@@ -0,0 +1,188 @@
+import type { ChapterData } from "~/types";
+
+export type TextFormat = "markdown" | "text";
+
+// Elements that start a new block of text
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "blockquote", "pre", "figure",
+  "figcaption", "ul", "ol", "li", "dl", "dt", "dd", "table", "tr",
+  "h1", "h2", "h3", "h4", "h5", "h6", "hr",
+]);
+
+/**
+ * Collapses whitespace the way a browser would when rendering.
+ */
+const collapseWhitespace = (text: string) =>
+  text.replace(/\u00a0/g, " ").replace(/[ \t\r\n]+/g, " ");
+
+/**
+ * Backslash-escapes characters that Markdown would read as inline syntax.
+ */
+const escapeInline = (text: string) => text.replace(/[\\`*_[\]~<]/g, "\\$&");
+
+/**
+ * Backslash-escapes what would start a heading, quote, list or rule when it
+ * opens a line of text.
+ */
+const escapeLineStart = (line: string) =>
+  line.replace(/^(\d+)([.)])/, "$1\\$2").replace(/^[#>+=-]/, "\\$&");
+
+/**
+ * Converts the inline content of a node to Markdown or plain text.
+ */
+function convertInline(node: Node, format: TextFormat): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = collapseWhitespace(node.textContent ?? "");
+    return format === "markdown" ? escapeInline(text) : text;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return "";
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  const inner = () =>
+    Array.from(el.childNodes, (child) => convertInline(child, format)).join("");
+
+  if (tag === "br") return "\n";
+  if (format === "text") {
+    return tag === "img" ? "" : inner();
+  }
+
+  // Markdown emphasis can't start or end on whitespace, so keep it outside
+  const wrap = (marker: string, text = inner()) => {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+  };
+
+  switch (tag) {
+    case "strong":
+    case "b":
+      return wrap("**");
+    case "em":
+    case "i":
+    case "cite":
+      return wrap("*");
+    case "s":
+    case "del":
+      return wrap("~~");
+    case "code": {
+      // Code spans show backslashes as they are, so take the raw text
+      const code = collapseWhitespace(el.textContent ?? "");
+      return wrap(code.includes("`") ? "``" : "`", code);
+    }
+    case "a": {
+      const href = el.getAttribute("href");
+      const text = inner();
+      return href && text.trim() ? `[${text}](${href})` : text;
+    }
+    case "img": {
+      const src = el.getAttribute("src");
+      const alt = escapeInline(el.getAttribute("alt") ?? "");
+      return src ? `![${alt}](${src})` : "";
+    }
+    default:
+      return inner();
+  }
+}
+
+/**
+ * Converts a block-level node (and everything below it) into a list of
+ * paragraphs, each already formatted.
+ */
+function convertBlocks(node: Node, format: TextFormat): string[] {
+  const blocks: string[] = [];
+  let inline = "";
+
+  const flushInline = () => {
+    const text = inline
+      .split("\n")
+      .map((line) =>
+        format === "markdown" ? escapeLineStart(line.trim()) : line.trim()
+      )
+      .join("\n")
+      .trim();
+    if (text) blocks.push(text);
+    inline = "";
+  };
+
+  for (const child of Array.from(node.childNodes)) {
+    const tag =
+      child.nodeType === Node.ELEMENT_NODE
+        ? (child as Element).tagName.toLowerCase()
+        : "";
+
+    if (!BLOCK_TAGS.has(tag)) {
+      inline += convertInline(child, format);
+      continue;
+    }
+
+    flushInline();
+    if (tag === "hr") {
+      blocks.push(format === "markdown" ? "---" : "* * *");
+      continue;
+    }
+
+    const childBlocks = convertBlocks(child, format);
+    if (format === "text") {
+      blocks.push(...childBlocks);
+      continue;
+    }
+
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      // The chapter title is the only level 1 heading
+      const level = Math.min(6, Number(heading[1]) + 1);
+      blocks.push(...childBlocks.map((b) => `${"#".repeat(level)} ${b}`));
+    } else if (tag === "blockquote") {
+      blocks.push(
+        ...childBlocks.map((b) =>
+          b
+            .split("\n")
+            .map((line) => `> ${line}`)
+            .join("\n")
+        )
+      );
+    } else if (tag === "ul" || tag === "ol") {
+      const items = Array.from(child.childNodes)
+        .filter((item) => (item as Element).tagName?.toLowerCase() === "li")
+        .map((item, i) => {
+          const marker = tag === "ol" ? `${i + 1}.` : "-";
+          return `${marker} ${convertBlocks(item, format).join(" ")}`;
+        });
+      if (items.length) blocks.push(items.join("\n"));
+    } else {
+      blocks.push(...childBlocks);
+    }
+  }
+
+  flushInline();
+  return blocks;
+}
+
+/**
+ * Converts chapter HTML into Markdown or plain text, one paragraph per block.
+ * @param html - Sanitized chapter content
+ * @param format - Output format
+ */
+export function htmlToText(html: string, format: TextFormat): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return convertBlocks(doc.body, format).join("\n\n");
+}
+
+/**
+ * Formats chapters as one Markdown or plain-text document.
+ * @param chapters - The chapters, in reading order
+ * @param format - Output format
+ */
+export function chaptersToText(
+  chapters: ChapterData[],
+  format: TextFormat
+): string {
+  return chapters
+    .map((chapter) => {
+      const body = htmlToText(chapter.content, format);
+      return format === "markdown"
+        ? `# ${escapeInline(chapter.title)}\n\n${body}`
+        : `${chapter.title}\n\n${body}`;
+    })
+    .join(format === "markdown" ? "\n\n---\n\n" : "\n\n\n");
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { ceneleAdapter } from "~/sites/cenele";
+import { hasMissingContent } from "./parseChapter";
+import chapterPage from "./__fixtures__/madara/chapter.html?raw";
+import currentChapIdPage from "./__fixtures__/madara/current-chap-id.html?raw";
+import emptyContentPage from "./__fixtures__/madara/empty-content.html?raw";
+import entryContentPage from "./__fixtures__/madara/entry-content.html?raw";
+import missingIdPage from "./__fixtures__/madara/missing-id.html?raw";
+import nanIdPage from "./__fixtures__/madara/nan-id.html?raw";
+
+const CHAPTER_URL = "https://cenele.com/novel/test-novel/chapter-12/";
+
+// Saved Madara chapter pages, parsed with the selectors the site really uses
+const parse = (html: string, uri = CHAPTER_URL) =>
+  ceneleAdapter.parseChapter(
+    new DOMParser().parseFromString(html, "text/html"),
+    uri
+  );
+
+describe("parseChapter on Madara pages", () => {
+  it("reads a complete chapter page", () => {
+    const { chapter, diagnostics } = parse(chapterPage);
+
+    expect(chapter.id).toBe(12345);
+    expect(chapter.uri).toBe(CHAPTER_URL);
+    expect(chapter.title).toBe("رواية تجريبية - الفصل 12");
+    expect(chapter.content).toContain("استيقظ البطل");
+    expect(chapter.content.match(/<p>/g)).toHaveLength(3);
+    expect(diagnostics).toEqual({
+      idSelector: 'a.wp-manga-action-button[data-action="bookmark"]',
+      titleSelector: "#chapter-heading",
+      contentSelector: ".text-right",
+      problems: [],
+    });
+    expect(hasMissingContent(diagnostics)).toBe(false);
+  });
+
+  it("falls back to the current chapter input for the ID", () => {
+    const { chapter, diagnostics } = parse(currentChapIdPage);
+
+    expect(chapter.id).toBe(12345);
+    expect(diagnostics.idSelector).toBe("#wp-manga-current-chap");
+    expect(diagnostics.problems).toEqual([]);
+  });
+
+  it("falls back to the entry content selector", () => {
+    const { chapter, diagnostics } = parse(entryContentPage);
+
+    expect(diagnostics.contentSelector).toBe(".reading-content .entry-content");
+    expect(chapter.content).toContain("استيقظ البطل");
+    expect(diagnostics.problems).toEqual([]);
+  });
+
+  it("reports a missing ID and derives one from the URL", () => {
+    const { chapter, diagnostics } = parse(missingIdPage);
+
+    expect(diagnostics.idSelector).toBeNull();
+    expect(diagnostics.problems).toEqual(["missing-id"]);
+    expect(chapter.id).toBeLessThan(0);
+    expect(parse(missingIdPage).chapter.id).toBe(chapter.id);
+    expect(
+      parse(missingIdPage, `${CHAPTER_URL}?style=list`).chapter.id
+    ).not.toBe(chapter.id);
+  });
+
+  it("replaces a non-numeric ID with the URL-derived one", () => {
+    const { chapter, diagnostics } = parse(nanIdPage);
+
+    expect(diagnostics.idSelector).toBe(
+      'a.wp-manga-action-button[data-action="bookmark"]'
+    );
+    expect(diagnostics.problems).toEqual(["nan-id"]);
+    expect(chapter.id).not.toBeNaN();
+    expect(chapter.id).toBe(parse(missingIdPage).chapter.id);
+  });
+
+  it("reports content that has no text", () => {
+    const { chapter, diagnostics } = parse(emptyContentPage);
+
+    expect(chapter.id).toBe(12345);
+    expect(diagnostics.contentSelector).toBe(".text-right");
+    expect(diagnostics.problems).toEqual(["empty-content"]);
+    expect(hasMissingContent(diagnostics)).toBe(true);
+  });
+
+  it("reports a page with no content or title at all", () => {
+    const { chapter, diagnostics } = parse(
+      "<html><body><p>404</p></body></html>"
+    );
+
+    expect(chapter.content).toBe("");
+    expect(chapter.title).toBe("Chapter Title Missing");
+    expect(diagnostics.problems).toEqual([
+      "missing-id",
+      "missing-title",
+      "missing-content",
+    ]);
+    expect(hasMissingContent(diagnostics)).toBe(true);
+  });
+});
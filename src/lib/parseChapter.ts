@@ -0,0 +1,116 @@
+import type { ChapterData } from "~/types";
+
+// Where a site keeps each part of a chapter page, most reliable first
+export interface ChapterSelectors {
+  id: { selector: string; attribute: string }[];
+  title: string[];
+  content: string[];
+}
+
+export type ChapterProblem =
+  | "missing-id" // No ID selector matched
+  | "nan-id" // An ID selector matched but its value isn't a number
+  | "missing-title"
+  | "missing-content" // No content selector matched
+  | "empty-content"; // Content matched but has no text or images
+
+export interface ChapterDiagnostics {
+  idSelector: string | null; // The selector that matched, if any
+  titleSelector: string | null;
+  contentSelector: string | null;
+  problems: ChapterProblem[];
+}
+
+export interface ParsedChapter {
+  chapter: ChapterData;
+  diagnostics: ChapterDiagnostics;
+}
+
+const MISSING_TITLE = "Chapter Title Missing";
+
+/**
+ * Extracts a chapter from a chapter page and reports how it got there.
+ * Works on the live document as well as on fetched, parsed pages.
+ * @param doc - The chapter page
+ * @param uri - URL the page was loaded from
+ * @param selectors - The site's selectors
+ */
+export function parseChapter(
+  doc: Document,
+  uri: string,
+  selectors: ChapterSelectors
+): ParsedChapter {
+  const problems: ChapterProblem[] = [];
+
+  // ID
+  let id = NaN;
+  let idSelector: string | null = null;
+  for (const { selector, attribute } of selectors.id) {
+    const value = doc.querySelector(selector)?.getAttribute(attribute);
+    if (value == null || value.trim() === "") continue;
+    idSelector = selector;
+    id = Number(value);
+    break;
+  }
+  if (idSelector === null) problems.push("missing-id");
+  else if (Number.isNaN(id)) problems.push("nan-id");
+  // Chapter cards are looked up by ID, so never hand out NaN
+  if (Number.isNaN(id)) id = fallbackId(uri);
+
+  // Title
+  const titleSelector =
+    selectors.title.find((selector) =>
+      doc.querySelector(selector)?.textContent?.trim()
+    ) ?? null;
+  const title = titleSelector
+    ? doc.querySelector(titleSelector)!.textContent!.trim()
+    : MISSING_TITLE;
+  if (!titleSelector) problems.push("missing-title");
+
+  // Content
+  const contentSelector =
+    selectors.content.find((selector) => doc.querySelector(selector)) ?? null;
+  const contentElement = contentSelector
+    ? doc.querySelector(contentSelector)
+    : null;
+  const content = contentElement?.innerHTML ?? "";
+  if (!contentElement) {
+    problems.push("missing-content");
+  } else if (
+    !contentElement.textContent?.trim() &&
+    !contentElement.querySelector("img")
+  ) {
+    problems.push("empty-content");
+  }
+
+  if (problems.length > 0) {
+    console.warn(`Problems parsing chapter ${uri}:`, problems);
+  }
+
+  return {
+    chapter: { id, uri, title, content },
+    diagnostics: { idSelector, titleSelector, contentSelector, problems },
+  };
+}
+
+/**
+ * Whether a parsed chapter has nothing worth showing.
+ */
+export function hasMissingContent(diagnostics: ChapterDiagnostics): boolean {
+  return (
+    diagnostics.problems.includes("missing-content") ||
+    diagnostics.problems.includes("empty-content")
+  );
+}
+
+/**
+ * Stable, negative ID derived from the chapter URL, so it can't collide with
+ * the site's own (positive) chapter IDs.
+ */
+function fallbackId(uri: string): number {
+  let hash = 0;
+  for (let i = 0; i < uri.length; i++) {
+    hash = (hash * 31 + uri.charCodeAt(i)) | 0;
+  }
+  return -Math.abs(hash) - 1;
+}
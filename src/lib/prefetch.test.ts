@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import type { Chapter } from "~/types";
+import type { ChapterFetchResult } from "./fetch";
+import { PrefetchScheduler } from "./prefetch";
+
+const chapter = (n: number): Chapter => ({
+  id: n,
+  value: `https://cenele.com/novel/test-novel/chapter-${n}/`,
+  text: `الفصل ${n}`,
+  selected: false,
+});
+
+// A fetcher whose requests never finish, as if the site were slow
+const pendingFetcher = () =>
+  vi.fn(
+    (_chapter: Chapter, _signal: AbortSignal) =>
+      new Promise<ChapterFetchResult>(() => {})
+  );
+
+describe("PrefetchScheduler", () => {
+  it("doesn't fetch a chapter again when rescheduled", () => {
+    const fetcher = pendingFetcher();
+    const scheduler = new PrefetchScheduler(fetcher, 2);
+
+    scheduler.schedule([chapter(1), chapter(2)]);
+    scheduler.schedule([chapter(1), chapter(2)]);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't fetch a handed-over chapter again while it is loading", () => {
+    const fetcher = pendingFetcher();
+    const scheduler = new PrefetchScheduler(fetcher, 2);
+
+    scheduler.schedule([chapter(1)]);
+    scheduler.request(chapter(1));
+    scheduler.schedule([chapter(1)]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("fetches again once a cancelled chapter is wanted back", () => {
+    const fetcher = pendingFetcher();
+    const scheduler = new PrefetchScheduler(fetcher, 2);
+
+    scheduler.schedule([chapter(1)]);
+    scheduler.schedule([]);
+    scheduler.schedule([chapter(1)]);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,126 @@
+import type { Chapter } from "~/types";
+import type { ChapterFetchResult } from "./fetch";
+
+type ChapterFetcher = (
+  chapter: Chapter,
+  signal: AbortSignal
+) => Promise<ChapterFetchResult>;
+
+interface PrefetchEntry {
+  controller: AbortController;
+  promise: Promise<ChapterFetchResult>;
+}
+
+// Subset of the Network Information API, which lib.dom does not type
+interface NetworkInformation {
+  saveData?: boolean;
+  type?: string;
+}
+
+/**
+ * Whether the browser reports a connection the user pays for by the byte.
+ */
+export function isMeteredConnection(): boolean {
+  const connection = (navigator as Navigator & { connection?: NetworkInformation })
+    .connection;
+  return (
+    !!connection &&
+    (connection.saveData === true || connection.type === "cellular")
+  );
+}
+
+export class PrefetchScheduler {
+  private queue: Chapter[] = [];
+  private entries = new Map<string, PrefetchEntry>();
+  // Fetches still running, including ones already handed over by `request`
+  private inFlight = new Map<string, AbortController>();
+  private active = 0;
+
+  /**
+   * @param fetcher - Fetches a single chapter, honouring the abort signal
+   * @param concurrency - How many chapters may be fetched at the same time
+   */
+  constructor(
+    private readonly fetcher: ChapterFetcher,
+    private readonly concurrency = 2
+  ) {}
+
+  /**
+   * Replaces the wanted chapters, in priority order. Chapters that are no
+   * longer wanted are cancelled and dropped from memory.
+   * @param chapters - The chapters to have ready, most urgent first
+   */
+  public schedule(chapters: Chapter[]): void {
+    const wanted = new Set(chapters.map((chapter) => chapter.value));
+    for (const [url, entry] of this.entries) {
+      if (!wanted.has(url)) {
+        entry.controller.abort();
+        this.entries.delete(url);
+        this.inFlight.delete(url);
+      }
+    }
+
+    this.queue = chapters.filter(
+      (chapter) =>
+        !this.entries.has(chapter.value) && !this.inFlight.has(chapter.value)
+    );
+    this.pump();
+  }
+
+  /**
+   * Returns a chapter, using the prefetched copy when there is one.
+   * The chapter is handed over to the caller and no longer kept here.
+   * @param chapter - The chapter to load
+   */
+  public request(chapter: Chapter): Promise<ChapterFetchResult> {
+    this.queue = this.queue.filter((queued) => queued.value !== chapter.value);
+
+    const entry = this.entries.get(chapter.value);
+    if (!entry) return this.fetcher(chapter, new AbortController().signal);
+
+    this.entries.delete(chapter.value);
+    // A failed prefetch shouldn't be final, give the chapter a fresh attempt
+    return entry.promise.then((result) =>
+      result.error ? this.fetcher(chapter, new AbortController().signal) : result
+    );
+  }
+
+  /**
+   * Starts queued fetches while there are free slots.
+   */
+  private pump(): void {
+    while (this.active < this.concurrency && this.queue.length > 0) {
+      const chapter = this.queue.shift()!;
+      const controller = new AbortController();
+      this.active++;
+      this.inFlight.set(chapter.value, controller);
+
+      const promise = this.fetcher(chapter, controller.signal)
+        .then((result) => {
+          if (result.error && result.error.kind !== "aborted") {
+            console.error("Failed to prefetch chapter:", chapter.text);
+          }
+          return result;
+        })
+        .finally(() => {
+          this.active--;
+          // Unless a newer fetch of the same chapter took its place
+          if (this.inFlight.get(chapter.value) === controller) {
+            this.inFlight.delete(chapter.value);
+          }
+          this.pump();
+        });
+      this.entries.set(chapter.value, { controller, promise });
+    }
+  }
+
+  /**
+   * Cancels all pending work and releases prefetched chapters.
+   */
+  public destroy(): void {
+    this.entries.forEach((entry) => entry.controller.abort());
+    this.entries.clear();
+    this.inFlight.clear();
+    this.queue = [];
+  }
+}
@@ -0,0 +1,265 @@
+import { rangeForOffsets } from "./textRange";
+
+export type ReadAloudState = "idle" | "playing" | "paused";
+
+interface ReadAloudCallbacks {
+  onStateChange: (state: ReadAloudState) => void;
+  /** The paragraphs of a chapter card, in reading order. */
+  getParagraphs: (chapterElement: HTMLElement) => Element[];
+  /** The chapter card after this one, loading it first if needed. */
+  getNextChapter: (chapterElement: HTMLElement) => Promise<HTMLElement | null>;
+}
+
+interface Sentence {
+  text: string;
+  start: number; // Offsets into the paragraph's text content
+  end: number;
+}
+
+const HIGHLIGHT_NAME = "read-aloud";
+const ACTIVE_PARAGRAPH_CLASS = "read-aloud-active";
+// Split after sentence punctuation (including the Arabic question mark) or
+// line breaks, keeping the punctuation with its sentence
+const SENTENCE_PATTERN = /[^.!?؟…\n]+[.!?؟…]*\s*/g;
+
+/**
+ * Finds the first installed voice for a language, e.g. "ar".
+ */
+function findVoice(language: string): SpeechSynthesisVoice | null {
+  return (
+    speechSynthesis
+      .getVoices()
+      .find((voice) => voice.lang.toLowerCase().startsWith(language)) ?? null
+  );
+}
+
+/**
+ * Splits a paragraph's text into sentences with their positions.
+ */
+function splitSentences(text: string): Sentence[] {
+  return Array.from(text.matchAll(SENTENCE_PATTERN))
+    .map((match) => ({
+      text: match[0].trim(),
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+    }))
+    .filter((sentence) => sentence.text.length > 0);
+}
+
+export class ReadAloud {
+  private state: ReadAloudState = "idle";
+  private chapterElement: HTMLElement | null = null;
+  private paragraphs: Element[] = [];
+  private paragraphIndex = 0;
+  private sentences: Sentence[] = [];
+  private sentenceIndex = 0;
+  // Bumped on every new utterance so callbacks of cancelled ones are ignored
+  private utteranceToken = 0;
+  private voice: SpeechSynthesisVoice | null = null;
+
+  public rate = 1;
+  public pitch = 1;
+
+  /**
+   * @param callbacks - Hooks into the reader
+   * @param language - Language to pick a voice for
+   */
+  constructor(
+    private readonly callbacks: ReadAloudCallbacks,
+    private readonly language = "ar"
+  ) {
+    this.voice = findVoice(language);
+    // Voices load asynchronously in most browsers
+    speechSynthesis.addEventListener("voiceschanged", this.handleVoicesChanged);
+  }
+
+  /**
+   * Whether the browser can speak at all.
+   */
+  public static isSupported(): boolean {
+    return "speechSynthesis" in window;
+  }
+
+  public hasVoice(): boolean {
+    return this.voice !== null;
+  }
+
+  /**
+   * Starts reading a chapter from one of its paragraphs.
+   * @param chapterElement - The chapter card to read
+   * @param paragraph - Index of the paragraph to start at
+   */
+  public start(chapterElement: HTMLElement, paragraph = 0): void {
+    this.loadChapter(chapterElement);
+    this.loadParagraph(paragraph);
+    this.setState("playing");
+    this.speak();
+  }
+
+  public pause(): void {
+    if (this.state !== "playing") return;
+    // Cancelling is more reliable than speechSynthesis.pause(), which some
+    // mobile browsers ignore; resume re-reads the current sentence instead
+    this.utteranceToken++;
+    speechSynthesis.cancel();
+    this.setState("paused");
+  }
+
+  public resume(): void {
+    if (this.state !== "paused") return;
+    this.setState("playing");
+    this.speak();
+  }
+
+  public stop(): void {
+    this.utteranceToken++;
+    speechSynthesis.cancel();
+    this.clearHighlight();
+    this.chapterElement = null;
+    this.setState("idle");
+  }
+
+  /** Skips to the next sentence. */
+  public next(): void {
+    if (this.state === "idle") return;
+    this.utteranceToken++;
+    speechSynthesis.cancel();
+    this.advance();
+  }
+
+  /** Goes back to the previous sentence (or the previous paragraph's last). */
+  public previous(): void {
+    if (this.state === "idle") return;
+    this.utteranceToken++;
+    speechSynthesis.cancel();
+
+    if (this.sentenceIndex > 0) {
+      this.sentenceIndex--;
+    } else if (this.paragraphIndex > 0) {
+      this.loadParagraph(this.paragraphIndex - 1);
+      this.sentenceIndex = Math.max(0, this.sentences.length - 1);
+    }
+    if (this.state === "playing") this.speak();
+    else this.highlight();
+  }
+
+  /**
+   * Releases the speech engine and listeners.
+   */
+  public destroy(): void {
+    this.stop();
+    speechSynthesis.removeEventListener(
+      "voiceschanged",
+      this.handleVoicesChanged
+    );
+  }
+
+  private handleVoicesChanged = () => {
+    this.voice = findVoice(this.language);
+  };
+
+  private setState(state: ReadAloudState): void {
+    this.state = state;
+    this.callbacks.onStateChange(state);
+  }
+
+  private loadChapter(chapterElement: HTMLElement): void {
+    this.chapterElement = chapterElement;
+    this.paragraphs = this.callbacks.getParagraphs(chapterElement);
+  }
+
+  private loadParagraph(index: number): void {
+    this.paragraphIndex = index;
+    this.sentences = splitSentences(
+      this.paragraphs[index]?.textContent ?? ""
+    );
+    this.sentenceIndex = 0;
+  }
+
+  private speak(): void {
+    // Skip paragraphs with nothing to say (images, separators)
+    if (this.sentenceIndex >= this.sentences.length) {
+      this.advance();
+      return;
+    }
+
+    const sentence = this.sentences[this.sentenceIndex];
+    const utterance = new SpeechSynthesisUtterance(sentence.text);
+    utterance.lang = this.voice?.lang ?? this.language;
+    utterance.voice = this.voice;
+    utterance.rate = this.rate;
+    utterance.pitch = this.pitch;
+
+    const token = ++this.utteranceToken;
+    utterance.onend = () => {
+      if (token === this.utteranceToken) this.advance();
+    };
+    utterance.onerror = (event) => {
+      if (token !== this.utteranceToken) return;
+      console.error("Speech synthesis failed:", event.error);
+      this.advance();
+    };
+
+    this.highlight();
+    speechSynthesis.speak(utterance);
+  }
+
+  private async advance(): Promise<void> {
+    if (this.sentenceIndex + 1 < this.sentences.length) {
+      this.sentenceIndex++;
+    } else if (this.paragraphIndex + 1 < this.paragraphs.length) {
+      this.loadParagraph(this.paragraphIndex + 1);
+    } else {
+      const current = this.chapterElement;
+      const token = this.utteranceToken;
+      const next = current
+        ? await this.callbacks.getNextChapter(current)
+        : null;
+      // Stopped or skipped while the next chapter was loading
+      if (token !== this.utteranceToken || this.state === "idle") return;
+      if (!next) {
+        this.stop();
+        return;
+      }
+      this.loadChapter(next);
+      this.loadParagraph(0);
+    }
+
+    if (this.state === "playing") this.speak();
+    else this.highlight();
+  }
+
+  private highlight(): void {
+    this.clearHighlight();
+    const paragraph = this.paragraphs[this.paragraphIndex];
+    const sentence = this.sentences[this.sentenceIndex];
+    if (!paragraph) return;
+
+    paragraph.classList.add(ACTIVE_PARAGRAPH_CLASS);
+    let target: { getBoundingClientRect(): DOMRect } = paragraph;
+    if (sentence && "highlights" in CSS) {
+      const range = rangeForOffsets(paragraph, sentence.start, sentence.end);
+      CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range));
+      target = range;
+    }
+
+    // Only scroll when the sentence is about to leave the screen
+    const rect = target.getBoundingClientRect();
+    if (
+      rect.top < window.innerHeight * 0.2 ||
+      rect.bottom > window.innerHeight * 0.8
+    ) {
+      window.scrollBy({
+        top: rect.top - window.innerHeight / 3,
+        behavior: "smooth",
+      });
+    }
+  }
+
+  private clearHighlight(): void {
+    if ("highlights" in CSS) CSS.highlights.delete(HIGHLIGHT_NAME);
+    document
+      .querySelectorAll(`.${ACTIVE_PARAGRAPH_CLASS}`)
+      .forEach((el) => el.classList.remove(ACTIVE_PARAGRAPH_CLASS));
+  }
+}
@@ -0,0 +1,91 @@
+import { getItem, setItem } from "./storage";
+
+export interface ReadingPosition {
+  chapterIndex: number; // Index in the reader's chapter list
+  chapterUrl: string;
+  chapterTitle: string;
+  paragraph: number; // Index of the top-level element inside the chapter content
+  updatedAt: number;
+}
+
+const STORAGE_KEY = "readingProgress";
+
+/**
+ * Reads the whole novel -> position map from storage.
+ */
+function loadProgressMap(): Record<string, ReadingPosition> {
+  try {
+    const saved = JSON.parse(getItem(STORAGE_KEY) || "{}");
+    return saved && typeof saved === "object" ? saved : {};
+  } catch (e) {
+    console.error("Failed to load reading progress:", e);
+    return {};
+  }
+}
+
+/**
+ * Returns the last saved position for a novel, if any.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ */
+export function loadReadingPosition(novelUrl: string): ReadingPosition | null {
+  return loadProgressMap()[novelUrl] ?? null;
+}
+
+/**
+ * Stores the current position for a novel, replacing the previous one.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ * @param position The chapter and paragraph the reader is at.
+ */
+export function saveReadingPosition(
+  novelUrl: string,
+  position: ReadingPosition
+): void {
+  const progress = loadProgressMap();
+  progress[novelUrl] = position;
+  try {
+    setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch (e) {
+    console.error("Failed to save reading progress:", e);
+  }
+}
+
+const READ_CHAPTERS_KEY = "readChapters";
+
+/**
+ * Reads the whole novel -> read chapter URLs map from storage.
+ */
+function loadReadChaptersMap(): Record<string, string[]> {
+  try {
+    const saved = JSON.parse(getItem(READ_CHAPTERS_KEY) || "{}");
+    return saved && typeof saved === "object" ? saved : {};
+  } catch (e) {
+    console.error("Failed to load read chapters:", e);
+    return {};
+  }
+}
+
+/**
+ * Returns the URLs of every chapter of a novel that was read to the end.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ */
+export function loadReadChapters(novelUrl: string): Set<string> {
+  return new Set(loadReadChaptersMap()[novelUrl] ?? []);
+}
+
+/**
+ * Marks a chapter of a novel as read.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ * @param chapterUrl The chapter URL from the chapter list.
+ */
+export function markChapterRead(novelUrl: string, chapterUrl: string): void {
+  const readChapters = loadReadChaptersMap();
+  const novelChapters = readChapters[novelUrl] ?? [];
+  if (novelChapters.includes(chapterUrl)) return;
+
+  readChapters[novelUrl] = [...novelChapters, chapterUrl];
+  try {
+    setItem(READ_CHAPTERS_KEY, JSON.stringify(readChapters));
+  } catch (e) {
+    console.error("Failed to save read chapters:", e);
+  }
+}
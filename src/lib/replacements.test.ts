@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyReplacementRules,
+  compileRule,
+  type ReplacementRule,
+} from "./replacements";
+
+const rule = (find: string, regex = true): ReplacementRule => ({
+  id: "rule",
+  find,
+  replace: "",
+  regex,
+  novelUrl: null,
+  enabled: true,
+});
+
+describe("compileRule", () => {
+  it("refuses quantified groups that repeat by themselves", () => {
+    for (const find of ["(\\s*)*x", "(a+)+", "(?:ab*){2,}", "((a)+b)*"]) {
+      expect(compileRule(rule(find)).data, find).toBeNull();
+    }
+  });
+
+  it("accepts ordinary patterns", () => {
+    for (const find of [
+      "\\s+",
+      "(?:مرحبا|أهلا)+",
+      "(\\d+) درهم",
+      "[(*+)]+",
+      "\\(a+\\)*",
+      "(?<name>ab)*",
+    ]) {
+      expect(compileRule(rule(find)).error, find).toBeNull();
+    }
+  });
+
+  it("doesn't look for quantifiers in plain text rules", () => {
+    expect(compileRule(rule("(a+)*", false)).error).toBeNull();
+  });
+
+  it("refuses very long patterns", () => {
+    expect(compileRule(rule("a".repeat(301))).data).toBeNull();
+  });
+
+  it("skips refused rules when applying", () => {
+    const html = "<p>aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!</p>";
+    expect(applyReplacementRules(html, [rule("(a*)*b")])).toBe(html);
+  });
+});
@@ -0,0 +1,291 @@
+import { getItem, setItem } from "./storage";
+import type { Result } from "./utils";
+
+export interface ReplacementRule {
+  id: string;
+  find: string;
+  replace: string;
+  regex: boolean; // Otherwise `find` is matched literally
+  novelUrl: string | null; // The novel it is limited to, or null for all
+  enabled: boolean;
+}
+
+export interface RulePreview {
+  count: number;
+  samples: { before: string; after: string }[];
+}
+
+// A shared rule set. Novel rules lose their URL so the file can be used with
+// another copy of the novel, and take the importing novel's instead.
+interface RuleSetExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  rules: (Omit<ReplacementRule, "id" | "novelUrl"> & {
+    scope: "global" | "novel";
+  })[];
+}
+
+export type RuleImportError = "invalid-json" | "wrong-format";
+
+const STORAGE_KEY = "replacementRules";
+const EXPORT_FORMAT = "cenele-replacement-rules";
+const EXPORT_VERSION = 1;
+// Longer patterns are almost always pasted by mistake and slow every chapter
+const MAX_PATTERN_LENGTH = 300;
+const PREVIEW_SAMPLES = 5;
+// Characters of context shown on each side of a previewed match
+const PREVIEW_CONTEXT = 30;
+
+// Keeps the fields a rule needs, or drops it
+const isRule = (value: unknown): value is ReplacementRule => {
+  const rule = value as ReplacementRule;
+  return (
+    typeof rule?.id === "string" &&
+    typeof rule.find === "string" &&
+    typeof rule.replace === "string" &&
+    typeof rule.regex === "boolean" &&
+    typeof rule.enabled === "boolean" &&
+    (rule.novelUrl === null || typeof rule.novelUrl === "string")
+  );
+};
+
+/**
+ * Reads all rules, global and per novel, in the order they apply.
+ */
+export function loadReplacementRules(): ReplacementRule[] {
+  try {
+    const saved = JSON.parse(getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved.filter(isRule) : [];
+  } catch (e) {
+    console.error("Failed to load replacement rules:", e);
+    return [];
+  }
+}
+
+/**
+ * Stores all rules, replacing the previous ones.
+ */
+export function saveReplacementRules(rules: ReplacementRule[]): void {
+  try {
+    setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (e) {
+    console.error("Failed to save replacement rules:", e);
+  }
+}
+
+/**
+ * The rules that apply to a novel: global ones and its own, in order.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ */
+export function rulesForNovel(
+  rules: ReplacementRule[],
+  novelUrl: string
+): ReplacementRule[] {
+  return rules.filter(
+    (rule) => rule.novelUrl === null || rule.novelUrl === novelUrl
+  );
+}
+
+// Whether a quantifier that can repeat without limit starts at an index
+const isUnboundedQuantifier = (source: string, index: number) =>
+  source[index] === "*" ||
+  source[index] === "+" ||
+  /^\{\d+,/.test(source.slice(index));
+
+/**
+ * Whether a pattern repeats a group that repeats by itself, like `(\s*)*`.
+ * Rules run on the main thread for every chapter, and such patterns can
+ * backtrack for minutes on text that almost matches.
+ */
+function hasNestedQuantifier(source: string): boolean {
+  // For each open group, whether it holds a quantifier so far
+  const groups = [false];
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      i++;
+    } else if (inClass) {
+      inClass = char !== "]";
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push(false);
+      // Skip `?:`, `?=`, `?<=`, `?<name>` and friends, which aren't quantifiers
+      if (source[i + 1] === "?") {
+        const name = source.slice(i + 2).match(/^<[^=!>]*>|^<?[=!:]?/);
+        i += 1 + (name?.[0].length ?? 0);
+      }
+    } else if (char === ")") {
+      const repeats = groups.pop() ?? false;
+      const quantified = isUnboundedQuantifier(source, i + 1);
+      if (repeats && quantified) return true;
+      if (groups.length === 0) groups.push(false); // Unbalanced, let it fail
+      if (repeats || quantified) groups[groups.length - 1] = true;
+    } else if (isUnboundedQuantifier(source, i)) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Turns a rule into the pattern it matches. Regular expressions that could
+ * hang the reader are refused.
+ * @returns The pattern, or why it can't be used
+ */
+export function compileRule(rule: ReplacementRule): Result<RegExp, string> {
+  if (!rule.find) return { data: null, error: "empty" };
+  if (rule.find.length > MAX_PATTERN_LENGTH) {
+    return {
+      data: null,
+      error: `النص أطول من ${MAX_PATTERN_LENGTH} حرفا`,
+    };
+  }
+  if (rule.regex && hasNestedQuantifier(rule.find)) {
+    return {
+      data: null,
+      error: "تكرار داخل تكرار مثل (a+)* قد يجمد القارئ",
+    };
+  }
+  const source = rule.regex
+    ? rule.find
+    : rule.find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  try {
+    return { data: new RegExp(source, "g"), error: null };
+  } catch (e) {
+    return { data: null, error: (e as Error).message };
+  }
+}
+
+// Regex rules may use $1 and friends; plain replacements are taken as is
+const replaceMatches = (
+  text: string,
+  pattern: RegExp,
+  rule: ReplacementRule
+) =>
+  rule.regex
+    ? text.replace(pattern, rule.replace)
+    : text.replace(pattern, () => rule.replace);
+
+/**
+ * Runs a callback over every text node of some HTML and returns the result.
+ * Tags and attributes are never touched, so rules can't break the markup or
+ * move paragraphs around.
+ */
+function mapTextNodes(html: string, map: (text: string) => string): string {
+  // Template content is inert: nothing loads and no scripts run
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  const walker = document.createTreeWalker(
+    template.content,
+    NodeFilter.SHOW_TEXT
+  );
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    const mapped = map(node.data);
+    if (mapped !== node.data) node.data = mapped;
+  }
+  return template.innerHTML;
+}
+
+/**
+ * Applies enabled rules to chapter content, one after the other. A match
+ * can't span across formatting such as bold text. Rules that don't compile
+ * are skipped.
+ * @param html - The chapter content
+ * @param rules - The novel's rules in order
+ */
+export function applyReplacementRules(
+  html: string,
+  rules: ReplacementRule[]
+): string {
+  const compiled = rules.flatMap((rule) => {
+    const { data: pattern } = compileRule(rule);
+    return rule.enabled && pattern ? [{ rule, pattern }] : [];
+  });
+  if (compiled.length === 0) return html;
+
+  return mapTextNodes(html, (text) =>
+    compiled.reduce(
+      (result, { rule, pattern }) => replaceMatches(result, pattern, rule),
+      text
+    )
+  );
+}
+
+/**
+ * Shows what a rule would change in some chapter content: how many matches
+ * there are and a few of them before and after.
+ * @param html - Chapter content, with the rules before this one applied
+ */
+export function previewRule(html: string, rule: ReplacementRule): RulePreview {
+  const preview: RulePreview = { count: 0, samples: [] };
+  const { data: pattern } = compileRule(rule);
+  if (!pattern) return preview;
+
+  mapTextNodes(html, (text) => {
+    for (const match of text.matchAll(pattern)) {
+      preview.count++;
+      if (preview.samples.length >= PREVIEW_SAMPLES || !match[0]) continue;
+
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const sample = text.slice(
+        Math.max(0, start - PREVIEW_CONTEXT),
+        end + PREVIEW_CONTEXT
+      );
+      preview.samples.push({
+        before: sample,
+        after: replaceMatches(sample, pattern, rule),
+      });
+    }
+    return text;
+  });
+  return preview;
+}
+
+/**
+ * Packs rules into a shareable file.
+ */
+export function exportRuleSet(rules: ReplacementRule[]): RuleSetExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    rules: rules.map(({ id, novelUrl, ...rule }) => ({
+      ...rule,
+      scope: novelUrl === null ? "global" : "novel",
+    })),
+  };
+}
+
+/**
+ * Reads a shared rule set, giving novel rules to the given novel.
+ * @param json - The exported file's text
+ * @param novelUrl - The novel the file is imported into
+ * @returns New rules, to be added after the existing ones
+ */
+export function importRuleSet(
+  json: string,
+  novelUrl: string
+): Result<ReplacementRule[], RuleImportError> {
+  let parsed: RuleSetExport;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { data: null, error: "invalid-json" };
+  }
+  if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.rules)) {
+    return { data: null, error: "wrong-format" };
+  }
+
+  const rules = parsed.rules
+    .filter((rule) => typeof rule === "object" && rule !== null)
+    .map(({ scope, ...rule }, i) => ({
+      ...rule,
+      id: `rule-${Date.now()}-${i}`,
+      novelUrl: scope === "novel" ? novelUrl : null,
+    }))
+    .filter(isRule);
+  return { data: rules, error: null };
+}
@@ -0,0 +1,150 @@
+// What was taken out of a chapter, e.g. { "<script>": 2, "@onclick": 1 }
+export type SanitizeReport = Record<string, number>;
+
+export interface SanitizeResult {
+  html: string;
+  removed: SanitizeReport;
+}
+
+// Tags kept as they are (minus disallowed attributes)
+const ALLOWED_TAGS = new Set([
+  "p", "br", "hr", "span", "div", "section", "article",
+  "b", "strong", "i", "em", "u", "s", "del", "ins", "sub", "sup", "small", "mark",
+  "blockquote", "q", "cite", "pre", "code",
+  "h1", "h2", "h3", "h4", "h5", "h6",
+  "ul", "ol", "li", "dl", "dt", "dd",
+  "a", "img", "figure", "figcaption", "picture",
+  "table", "thead", "tbody", "tfoot", "tr", "td", "th", "caption",
+  "ruby", "rt", "rp",
+]);
+
+// Tags dropped together with everything inside them
+const DROPPED_TAGS = new Set([
+  "script", "noscript", "style", "link", "meta", "base", "template",
+  "iframe", "frame", "frameset", "object", "embed", "applet", "portal",
+  "form", "input", "button", "select", "textarea", "option",
+  "svg", "math", "canvas", "audio", "video", "source", "track",
+]);
+
+// Attributes allowed per tag, "*" applies to every tag
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  "*": ["dir", "lang", "title"],
+  a: ["href", "target", "rel"],
+  img: ["src", "alt", "width", "height"],
+  td: ["colspan", "rowspan"],
+  th: ["colspan", "rowspan"],
+};
+
+// Attributes holding URLs, and the schemes allowed in them
+const URL_ATTRIBUTES = new Set(["href", "src"]);
+const ALLOWED_URL = /^(https?:|data:image\/|#|\/|\.)/i;
+
+// Wrappers WordPress ad plugins put around injected ads
+const AD_CLASS_PATTERN = /\b(adsbygoogle|code-block|ad-?slot|ads?-container|adblock_title)\b/i;
+
+/**
+ * Cleans chapter HTML down to an allowlist of tags and attributes.
+ * @param html - Chapter content as extracted from the page
+ * @returns The cleaned HTML and a count of everything that was removed
+ */
+export function sanitizeChapterHtml(html: string): SanitizeResult {
+  // Documents from DOMParser are inert: nothing in them runs or loads
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const removed: SanitizeReport = {};
+  const count = (key: string) => (removed[key] = (removed[key] ?? 0) + 1);
+
+  const sanitizeElement = (el: Element) => {
+    for (const child of Array.from(el.children)) {
+      const tag = child.tagName.toLowerCase();
+
+      if (DROPPED_TAGS.has(tag)) {
+        count(`<${tag}>`);
+        child.remove();
+        continue;
+      }
+      if (AD_CLASS_PATTERN.test(child.getAttribute("class") ?? "")) {
+        count("ad-block");
+        child.remove();
+        continue;
+      }
+      if (tag === "img" && isTrackingPixel(child)) {
+        count("tracking-pixel");
+        child.remove();
+        continue;
+      }
+
+      sanitizeElement(child);
+
+      if (tag === "img") promoteLazySource(child);
+      if (!ALLOWED_TAGS.has(tag)) {
+        // Unknown wrappers (font, center, ...) go, their text stays
+        count(`<${tag}>`);
+        child.replaceWith(...Array.from(child.childNodes));
+        continue;
+      }
+      sanitizeAttributes(child, tag, count);
+    }
+  };
+
+  // Comments can hide conditional markup, drop them too
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_COMMENT);
+  const comments: Node[] = [];
+  while (walker.nextNode()) comments.push(walker.currentNode);
+  comments.forEach((comment) => comment.parentNode?.removeChild(comment));
+
+  sanitizeElement(doc.body);
+  return { html: doc.body.innerHTML, removed };
+}
+
+function sanitizeAttributes(
+  el: Element,
+  tag: string,
+  count: (key: string) => void
+): void {
+  const allowed = [
+    ...ALLOWED_ATTRIBUTES["*"],
+    ...(ALLOWED_ATTRIBUTES[tag] ?? []),
+  ];
+
+  for (const attribute of Array.from(el.attributes)) {
+    const name = attribute.name.toLowerCase();
+    const unsafeUrl =
+      URL_ATTRIBUTES.has(name) && !ALLOWED_URL.test(attribute.value.trim());
+
+    if (!allowed.includes(name) || unsafeUrl) {
+      count(`@${name}`);
+      el.removeAttribute(attribute.name);
+    }
+  }
+
+  if (tag === "a") {
+    // Links open outside the reader and can't reach back into it
+    el.setAttribute("target", "_blank");
+    el.setAttribute("rel", "noopener noreferrer");
+  }
+}
+
+/**
+ * Lazy-loading plugins keep the real image in a data attribute, which would
+ * otherwise be stripped and leave only the placeholder.
+ */
+function promoteLazySource(img: Element): void {
+  const lazySource =
+    img.getAttribute("data-src") ?? img.getAttribute("data-lazy-src");
+  const src = img.getAttribute("src") ?? "";
+  if (lazySource && (!src || src.startsWith("data:"))) {
+    img.setAttribute("src", lazySource);
+  }
+}
+
+/**
+ * 1x1 (or hidden) images are beacons, not illustrations.
+ */
+function isTrackingPixel(img: Element): boolean {
+  const width = Number(img.getAttribute("width"));
+  const height = Number(img.getAttribute("height"));
+  return (
+    (img.hasAttribute("width") && width <= 1) ||
+    (img.hasAttribute("height") && height <= 1)
+  );
+}
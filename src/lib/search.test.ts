@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { ChapterData } from "~/types";
+import { normalizeQuery, prepareChapter, searchChapters } from "./search";
+
+const URL = "https://cenele.com/novel/test-novel/chapter-3/";
+
+// A chapter with one paragraph per string
+const chapterOf = (...paragraphs: string[]) =>
+  prepareChapter(URL, 2, {
+    id: 3,
+    uri: URL,
+    title: "الفصل الثالث",
+    content: paragraphs.map((text) => `<p>${text}</p>`).join(""),
+  } satisfies ChapterData);
+
+describe("normalizeQuery", () => {
+  it("drops harakat and tatweel", () => {
+    expect(normalizeQuery("كَتَبَ الطَّالِبُ")).toBe("كتب الطالب");
+    expect(normalizeQuery("كتــاب")).toBe("كتاب");
+  });
+
+  it("unifies alef and hamza forms", () => {
+    expect(normalizeQuery("أحمد إلى آخر ٱلقصة")).toBe("احمد الي اخر القصه");
+    expect(normalizeQuery("مؤمن قائم")).toBe("مومن قايم");
+  });
+
+  it("reads taa marbuta as haa", () => {
+    expect(normalizeQuery("مدرسة")).toBe(normalizeQuery("مدرسه"));
+  });
+
+  it("lowercases Latin letters and collapses whitespace", () => {
+    expect(normalizeQuery("  Level   UP\n")).toBe("level up");
+  });
+});
+
+describe("searchChapters", () => {
+  it("finds text whatever its diacritics or letter forms", () => {
+    const chapter = chapterOf("قَالَ المُعَلِّمُ: إنَّ المدرسةَ أُغلِقَت");
+
+    expect(searchChapters([chapter], "المعلم")).toHaveLength(1);
+    expect(searchChapters([chapter], "ان المدرسه اغلقت")).toHaveLength(1);
+  });
+
+  it("points back at the matched span of the original text", () => {
+    const text = "ذهب إلى المَدْرَسَةِ صباحاً";
+    const [result] = searchChapters([chapterOf("مقدمة", text)], "المدرسه");
+
+    expect(result.paragraph).toBe(1);
+    expect(result.match).toBe("المَدْرَسَة");
+    expect(text.slice(result.start, result.end)).toBe(result.match);
+    expect(result.before).toBe("ذهب إلى ");
+  });
+
+  it("keeps offsets in step after letters that lowercase to two", () => {
+    const text = "İstanbul Hotel";
+    const [result] = searchChapters([chapterOf(text)], "hotel");
+
+    expect(text.slice(result.start, result.end)).toBe("Hotel");
+  });
+
+  it("ignores queries that are too short", () => {
+    expect(searchChapters([chapterOf("ا ب ت")], "ا")).toEqual([]);
+  });
+
+  it("labels results with the chapter they're in", () => {
+    const [result] = searchChapters([chapterOf("نص الفصل")], "الفصل");
+
+    expect(result).toMatchObject({
+      chapterUrl: URL,
+      chapterTitle: "الفصل الثالث",
+      chapterIndex: 2,
+    });
+  });
+});
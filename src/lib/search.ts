@@ -0,0 +1,172 @@
+import type { ChapterData } from "~/types";
+import { rangeForOffsets } from "./textRange";
+
+// Text in its searchable form, with where each character came from
+interface NormalizedText {
+  original: string;
+  text: string;
+  // Index into `original` of every character of `text`, plus one past the end
+  offsets: number[];
+}
+
+export interface SearchableChapter {
+  url: string;
+  title: string;
+  index: number; // Index in the reader's chapter list
+  paragraphs: NormalizedText[];
+}
+
+export interface SearchResult {
+  chapterUrl: string;
+  chapterTitle: string;
+  chapterIndex: number;
+  paragraph: number; // Index of the top-level element inside the content
+  start: number; // Offsets into that element's text content
+  end: number;
+  before: string;
+  match: string;
+  after: string;
+}
+
+export const MIN_QUERY_LENGTH = 2;
+export const MAX_RESULTS = 200;
+// Characters of context shown on each side of a match
+const SNIPPET_CONTEXT = 40;
+const HIGHLIGHT_NAME = "search-match";
+
+// Harakat, the superscript alef and tatweel, which readers don't type
+const IGNORED_CHARACTERS = /[\u064B-\u0652\u0670\u0640]/;
+// Letters that are spelled interchangeably, mapped to one form
+const LETTER_FORMS: Record<string, string> = {
+  "أ": "ا",
+  "إ": "ا",
+  "آ": "ا",
+  "ٱ": "ا",
+  "ؤ": "و",
+  "ئ": "ي",
+  "ى": "ي",
+  "ة": "ه",
+};
+
+/**
+ * Brings Arabic text to a form where spelling variants compare equal:
+ * diacritics are dropped, alef and hamza seats unified and taa marbuta
+ * read as haa. Latin letters are lowercased and runs of whitespace become
+ * one space.
+ */
+function normalize(original: string): NormalizedText {
+  let text = "";
+  const offsets: number[] = [];
+  for (let i = 0; i < original.length; i++) {
+    const char = original[i];
+    if (IGNORED_CHARACTERS.test(char)) continue;
+    const space = /\s/.test(char);
+    if (space && text.endsWith(" ")) continue;
+    const form = space ? " " : (LETTER_FORMS[char] ?? char.toLowerCase());
+    text += form;
+    // Some letters lowercase to more than one character, like "İ" to "i̇";
+    // each of them maps back to the same original one
+    for (let j = 0; j < form.length; j++) offsets.push(i);
+  }
+  offsets.push(original.length);
+  return { original, text, offsets };
+}
+
+/**
+ * Normalizes a search query the same way as the text it is matched against.
+ */
+export function normalizeQuery(query: string): string {
+  return normalize(query.trim()).text;
+}
+
+/**
+ * Splits a chapter into paragraphs the way the reader renders them, so
+ * results point at the same elements.
+ * @param url - The chapter's URL in the chapter list
+ * @param index - The chapter's index in the chapter list
+ */
+export function prepareChapter(
+  url: string,
+  index: number,
+  chapter: ChapterData
+): SearchableChapter {
+  // Template content is inert: nothing loads and no scripts run
+  const template = document.createElement("template");
+  template.innerHTML = chapter.content;
+  return {
+    url,
+    title: chapter.title,
+    index,
+    paragraphs: Array.from(template.content.children, (el) =>
+      normalize(el.textContent ?? "")
+    ),
+  };
+}
+
+/**
+ * Finds every occurrence of a query in the given chapters.
+ * @param chapters - Chapters in reading order
+ * @param query - The query as typed; it is normalized here
+ * @returns Up to MAX_RESULTS matches with some text around them
+ */
+export function searchChapters(
+  chapters: SearchableChapter[],
+  query: string
+): SearchResult[] {
+  const needle = normalizeQuery(query);
+  if (needle.length < MIN_QUERY_LENGTH) return [];
+
+  const results: SearchResult[] = [];
+  for (const chapter of chapters) {
+    chapter.paragraphs.forEach(({ original, text, offsets }, paragraph) => {
+      for (
+        let at = text.indexOf(needle);
+        at !== -1;
+        at = text.indexOf(needle, at + needle.length)
+      ) {
+        const start = offsets[at];
+        const end = offsets[at + needle.length - 1] + 1;
+        const from = Math.max(0, start - SNIPPET_CONTEXT);
+        const to = Math.min(original.length, end + SNIPPET_CONTEXT);
+        results.push({
+          chapterUrl: chapter.url,
+          chapterTitle: chapter.title,
+          chapterIndex: chapter.index,
+          paragraph,
+          start,
+          end,
+          before: (from > 0 ? "…" : "") + original.slice(from, start),
+          match: original.slice(start, end),
+          after: original.slice(end, to) + (to < original.length ? "…" : ""),
+        });
+      }
+    });
+    if (results.length >= MAX_RESULTS) break;
+  }
+  return results.slice(0, MAX_RESULTS);
+}
+
+/**
+ * Highlights a result in the rendered chapter content.
+ * @param content - The chapter's `.chapter-content` element
+ * @returns The match's range, or null if its paragraph isn't there
+ */
+export function markSearchResult(
+  content: Element,
+  result: SearchResult
+): Range | null {
+  const paragraph = content.children[result.paragraph];
+  if (!paragraph) return null;
+  const range = rangeForOffsets(paragraph, result.start, result.end);
+  if ("highlights" in CSS) {
+    CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range));
+  }
+  return range;
+}
+
+/**
+ * Removes the highlight left by `markSearchResult`.
+ */
+export function clearSearchMark(): void {
+  if ("highlights" in CSS) CSS.highlights.delete(HIGHLIGHT_NAME);
+}
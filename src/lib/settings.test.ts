@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_USER_STYLE,
+  loadUserStyle,
+  saveUserStyle,
+  SETTINGS_VERSION,
+  validateUserStyle,
+} from "./settings";
+import type { ReaderTheme } from "./themes";
+
+const storeSettings = (stored: unknown) =>
+  localStorage.setItem("userStyle", JSON.stringify(stored));
+
+const theme = (overrides: Partial<ReaderTheme> = {}): ReaderTheme => ({
+  id: "custom-1",
+  name: "ليلي",
+  background: "#101820",
+  text: "#e0e0e0",
+  link: "#80b0ff",
+  selection: "#304060",
+  header: "#182028",
+  dark: true,
+  ...overrides,
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  // Invalid values are reported, which is expected here
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("loadUserStyle", () => {
+  it("reads an unversioned style object as version 1", () => {
+    storeSettings({ fontSize: [20], theme: "dark" });
+
+    const style = loadUserStyle();
+
+    expect(style.fontSize).toEqual([20]);
+    expect(style.backgroundColor).toBe("dark");
+    expect(style).not.toHaveProperty("theme");
+  });
+
+  it("keeps a version 1 background over the old theme flag", () => {
+    storeSettings({ theme: "dark", backgroundColor: "sepia" });
+
+    expect(loadUserStyle().backgroundColor).toBe("sepia");
+  });
+
+  it("falls back to the defaults when the stored JSON is unreadable", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    localStorage.setItem("userStyle", "{not json");
+
+    expect(loadUserStyle()).toEqual(DEFAULT_USER_STYLE);
+  });
+
+  it("reads back what was saved", () => {
+    const style = { ...DEFAULT_USER_STYLE, fontSize: [22], debug: true };
+    saveUserStyle(style, DEFAULT_USER_STYLE);
+
+    expect(loadUserStyle()).toEqual(style);
+  });
+
+  it("only saves settings that differ from the defaults", () => {
+    saveUserStyle({ ...DEFAULT_USER_STYLE, fontSize: [22] }, DEFAULT_USER_STYLE);
+
+    expect(JSON.parse(localStorage.getItem("userStyle")!)).toEqual({
+      version: SETTINGS_VERSION,
+      settings: { fontSize: [22] },
+    });
+  });
+});
+
+describe("validateUserStyle", () => {
+  it("clamps sliders into range and snaps them to the step", () => {
+    const style = validateUserStyle({
+      fontSize: [200],
+      lineHeight: [0.2],
+      textWidth: 83,
+    });
+
+    expect(style.fontSize).toEqual([50]);
+    expect(style.lineHeight).toEqual([1]);
+    expect(style.textWidth).toEqual([85]);
+  });
+
+  it("drops sliders that aren't numbers", () => {
+    const style = validateUserStyle({
+      fontSize: ["big"],
+      lineHeight: [NaN],
+      textWidth: null,
+      sidePadding: [],
+    });
+
+    expect(style.fontSize).toEqual(DEFAULT_USER_STYLE.fontSize);
+    expect(style.lineHeight).toEqual(DEFAULT_USER_STYLE.lineHeight);
+    expect(style.textWidth).toEqual(DEFAULT_USER_STYLE.textWidth);
+    expect(style.sidePadding).toEqual(DEFAULT_USER_STYLE.sidePadding);
+    expect(console.warn).toHaveBeenCalledTimes(4);
+  });
+
+  it("filters out bindings for unknown actions", () => {
+    const style = validateUserStyle({
+      shortcuts: { nextChapter: "j", removedAction: "k", scrollDown: 5 },
+    });
+
+    expect(style.shortcuts).toEqual({ nextChapter: "j" });
+  });
+
+  it("filters out malformed custom themes", () => {
+    const valid = theme();
+    const style = validateUserStyle({
+      customThemes: [
+        valid,
+        theme({ id: "custom-2", text: "red" }),
+        { ...theme({ id: "custom-3" }), name: undefined },
+        theme({ id: "custom-4", dark: "yes" as unknown as boolean }),
+        null,
+      ],
+    });
+
+    expect(style.customThemes).toEqual([valid]);
+  });
+
+  it("keeps the default for values outside a fixed set", () => {
+    const style = validateUserStyle({
+      textAlign: "center",
+      layoutMode: "paginated",
+    });
+
+    expect(style.textAlign).toBe(DEFAULT_USER_STYLE.textAlign);
+    expect(style.layoutMode).toBe("paginated");
+  });
+});
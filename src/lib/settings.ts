@@ -0,0 +1,545 @@
+import type { AutoScrollUnit } from "./autoScroll";
+import {
+  DEFAULT_SHORTCUTS,
+  type ShortcutAction,
+  type ShortcutMap,
+} from "./shortcuts";
+import { getItem, setItem } from "./storage";
+import type { ReaderTheme } from "./themes";
+
+export interface UserStyle {
+  fontSize: number[];
+  lineHeight: number[];
+  textWidth: number[]; // Maximum width of the text column in ch
+  sidePadding: number[]; // Pixels on either side of the text
+  textAlign: "right" | "justify";
+  paragraphSpacing: number[]; // em
+  textIndent: number[]; // First-line indent in em
+  letterSpacing: number[]; // em
+  wordSpacing: number[]; // em
+  fontFamily: string; // Id of a curated or uploaded font
+  backgroundColor: string; // Id of the colour theme
+  customThemes: ReaderTheme[];
+  layoutMode: "scroll" | "paginated";
+  prefetchCount: number[];
+  prefetchOnMetered: boolean;
+  ttsRate: number[];
+  ttsPitch: number[];
+  autoScrollUnit: AutoScrollUnit;
+  autoScrollSpeed: number[]; // Pixels per second
+  autoScrollWpm: number[]; // Words per minute
+  autoScrollHoverPause: boolean; // Hold while the pointer rests on the text
+  shortcuts: Partial<ShortcutMap>; // Only the rebound keys
+  debug: boolean;
+}
+
+// Where a resolved setting came from, from lowest to highest precedence:
+// the synced global settings, an override for the open novel, and an
+// override kept on this device only
+export type StyleLayer = "global" | "novel" | "device";
+
+// Reading appearance settings that a novel or a device can override
+export const OVERRIDABLE_SETTINGS = [
+  "fontSize",
+  "lineHeight",
+  "textWidth",
+  "sidePadding",
+  "textAlign",
+  "paragraphSpacing",
+  "textIndent",
+  "letterSpacing",
+  "wordSpacing",
+  "fontFamily",
+  "backgroundColor",
+  "layoutMode",
+] as const satisfies readonly (keyof UserStyle)[];
+
+export type OverridableSetting = (typeof OVERRIDABLE_SETTINGS)[number];
+export type StyleOverride = Partial<Pick<UserStyle, OverridableSetting>>;
+
+type SliderSetting = {
+  [K in keyof UserStyle]: UserStyle[K] extends number[] ? K : never;
+}[keyof UserStyle];
+
+interface SliderRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+const STORAGE_KEY = "userStyle";
+const NOVEL_STYLES_KEY = "novelStyles";
+// Always in localStorage: unlike the other layers it must not follow the
+// reader data to another backend or device
+const DEVICE_STYLE_KEY = "deviceStyle";
+// Bump when a stored field changes meaning or shape, and add a migration
+export const SETTINGS_VERSION = 3;
+// From this version on, only settings that differ from the defaults are
+// stored, so defaults that depend on the screen keep following it
+const SPARSE_SETTINGS_VERSION = 3;
+
+export const DEFAULT_USER_STYLE: UserStyle = {
+  fontSize: [16],
+  lineHeight: [1.7],
+  textWidth: [80],
+  sidePadding: [24],
+  textAlign: "right",
+  paragraphSpacing: [1],
+  textIndent: [0],
+  letterSpacing: [0],
+  wordSpacing: [0],
+  fontFamily: "naskh",
+  backgroundColor: "white",
+  customThemes: [],
+  layoutMode: "scroll",
+  prefetchCount: [2],
+  prefetchOnMetered: false,
+  ttsRate: [1],
+  ttsPitch: [1],
+  autoScrollUnit: "pixels",
+  autoScrollSpeed: [40],
+  autoScrollWpm: [250],
+  autoScrollHoverPause: false,
+  shortcuts: {},
+  debug: false,
+};
+
+// Bounds for every slider setting, shared by the settings UI and validation
+export const SLIDER_RANGES: Record<SliderSetting, SliderRange> = {
+  fontSize: { min: 12, max: 50, step: 1 },
+  lineHeight: { min: 1, max: 5, step: 0.1 },
+  textWidth: { min: 40, max: 150, step: 5 },
+  sidePadding: { min: 0, max: 96, step: 4 },
+  paragraphSpacing: { min: 0, max: 3, step: 0.25 },
+  textIndent: { min: 0, max: 4, step: 0.5 },
+  // Any letter spacing breaks Arabic letters apart in some browsers, so
+  // only a little is offered
+  letterSpacing: { min: 0, max: 0.2, step: 0.01 },
+  wordSpacing: { min: 0, max: 1, step: 0.05 },
+  prefetchCount: { min: 0, max: 5, step: 1 },
+  ttsRate: { min: 0.5, max: 2, step: 0.1 },
+  ttsPitch: { min: 0.5, max: 2, step: 0.1 },
+  autoScrollSpeed: { min: 5, max: 300, step: 5 },
+  autoScrollWpm: { min: 50, max: 1000, step: 25 },
+};
+
+// Phones have little width to spare for padding and paragraph gaps
+const MOBILE_QUERY = "(max-width: 640px)";
+const MOBILE_DEFAULTS: Partial<UserStyle> = {
+  sidePadding: [16],
+  paragraphSpacing: [0.75],
+};
+
+// Settings whose default depends on the screen size
+const SCREEN_DEFAULT_KEYS = Object.keys(MOBILE_DEFAULTS) as (keyof UserStyle)[];
+
+/**
+ * The defaults for this screen size.
+ */
+export function defaultUserStyle(): UserStyle {
+  return window.matchMedia(MOBILE_QUERY).matches
+    ? { ...DEFAULT_USER_STYLE, ...MOBILE_DEFAULTS }
+    : { ...DEFAULT_USER_STYLE };
+}
+
+/**
+ * CSS variables the chapter text reads its layout from, set on `<main>`.
+ */
+export function layoutVariables(style: UserStyle): Record<string, string> {
+  return {
+    "--text-width": `${style.textWidth[0]}ch`,
+    "--side-padding": `${style.sidePadding[0]}px`,
+    "--text-align": style.textAlign,
+    "--paragraph-spacing": `${style.paragraphSpacing[0]}em`,
+    "--text-indent": `${style.textIndent[0]}em`,
+    "--letter-spacing": `${style.letterSpacing[0]}em`,
+    "--word-spacing": `${style.wordSpacing[0]}em`,
+  };
+}
+
+/**
+ * Keeps a number inside a slider's range, snapped to its step.
+ */
+export function clampToRange(value: number, range: SliderRange): number {
+  const snapped =
+    range.min + Math.round((value - range.min) / range.step) * range.step;
+  // Rounding again drops floating point noise such as 1.7000000000000002
+  return Number(
+    Math.min(range.max, Math.max(range.min, snapped)).toFixed(4)
+  );
+}
+
+// Validators return the cleaned value, or undefined to use the default
+type Validator<T> = (value: unknown) => T | undefined;
+
+// Sliders store one-element arrays; bare numbers are accepted too
+const slider =
+  (range: SliderRange): Validator<number[]> =>
+  (value) => {
+    const number = Array.isArray(value) ? value[0] : value;
+    return typeof number === "number" && Number.isFinite(number)
+      ? [clampToRange(number, range)]
+      : undefined;
+  };
+
+const oneOf =
+  <T extends string>(...options: T[]): Validator<T> =>
+  (value) =>
+    options.includes(value as T) ? (value as T) : undefined;
+
+const nonEmptyString: Validator<string> = (value) =>
+  typeof value === "string" && value ? value : undefined;
+
+const boolean: Validator<boolean> = (value) =>
+  typeof value === "boolean" ? value : undefined;
+
+const isColor = (value: unknown) =>
+  typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+// Drops themes that are missing a name or have a malformed colour
+const customThemes: Validator<ReaderTheme[]> = (value) => {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter(
+    (theme): theme is ReaderTheme =>
+      typeof theme?.id === "string" &&
+      typeof theme.name === "string" &&
+      typeof theme.dark === "boolean" &&
+      ["background", "text", "link", "selection", "header"].every((key) =>
+        isColor(theme[key])
+      )
+  );
+};
+
+// Keeps bindings for actions that still exist
+const shortcuts: Validator<Partial<ShortcutMap>> = (value) => {
+  if (typeof value !== "object" || value === null) return undefined;
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([action, key]) => action in DEFAULT_SHORTCUTS && typeof key === "string"
+    )
+  ) as Partial<Record<ShortcutAction, string>>;
+};
+
+const SCHEMA: { [K in keyof UserStyle]: Validator<UserStyle[K]> } = {
+  fontSize: slider(SLIDER_RANGES.fontSize),
+  lineHeight: slider(SLIDER_RANGES.lineHeight),
+  textWidth: slider(SLIDER_RANGES.textWidth),
+  sidePadding: slider(SLIDER_RANGES.sidePadding),
+  textAlign: oneOf("right", "justify"),
+  paragraphSpacing: slider(SLIDER_RANGES.paragraphSpacing),
+  textIndent: slider(SLIDER_RANGES.textIndent),
+  letterSpacing: slider(SLIDER_RANGES.letterSpacing),
+  wordSpacing: slider(SLIDER_RANGES.wordSpacing),
+  fontFamily: nonEmptyString,
+  backgroundColor: nonEmptyString,
+  customThemes,
+  layoutMode: oneOf("scroll", "paginated"),
+  prefetchCount: slider(SLIDER_RANGES.prefetchCount),
+  prefetchOnMetered: boolean,
+  ttsRate: slider(SLIDER_RANGES.ttsRate),
+  ttsPitch: slider(SLIDER_RANGES.ttsPitch),
+  autoScrollUnit: oneOf("pixels", "words"),
+  autoScrollSpeed: slider(SLIDER_RANGES.autoScrollSpeed),
+  autoScrollWpm: slider(SLIDER_RANGES.autoScrollWpm),
+  autoScrollHoverPause: boolean,
+  shortcuts,
+  debug: boolean,
+};
+
+type StoredSettings = Record<string, unknown>;
+type Migration = (settings: StoredSettings) => StoredSettings;
+
+// Migrations by the version they upgrade from
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 1 had a separate light/dark `theme` flag next to the background;
+  // the colour theme now decides both
+  1: ({ theme, ...settings }) => ({
+    ...settings,
+    backgroundColor:
+      settings.backgroundColor ?? (theme === "dark" ? "dark" : "white"),
+  }),
+};
+
+/**
+ * Checks every field of stored settings, replacing missing or invalid ones
+ * with their default and clamping numbers into range.
+ * @param settings - Settings already migrated to the current version
+ * @param defaults - Values to fall back to
+ */
+export function validateUserStyle(
+  settings: StoredSettings,
+  defaults: UserStyle = DEFAULT_USER_STYLE
+): UserStyle {
+  const style = { ...defaults };
+  for (const key of Object.keys(SCHEMA) as (keyof UserStyle)[]) {
+    if (!(key in settings)) continue;
+    const value = SCHEMA[key](settings[key]);
+    if (value === undefined) {
+      console.warn(`Ignoring invalid setting "${key}":`, settings[key]);
+    } else {
+      (style as Record<keyof UserStyle, unknown>)[key] = value;
+    }
+  }
+  return style;
+}
+
+// Whether two setting values are the same, arrays included
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Drops screen-size settings that hold either screen's default. Before
+ * sparse storage every setting was saved, freezing these at whatever screen
+ * the reader was first opened on.
+ */
+function dropScreenDefaults(settings: StoredSettings): StoredSettings {
+  const sparse = { ...settings };
+  for (const key of SCREEN_DEFAULT_KEYS) {
+    if (
+      sameValue(settings[key], DEFAULT_USER_STYLE[key]) ||
+      sameValue(settings[key], MOBILE_DEFAULTS[key])
+    ) {
+      delete sparse[key];
+    }
+  }
+  return sparse;
+}
+
+/**
+ * Upgrades settings saved by any earlier version to the current one.
+ * @param settings - The stored settings object
+ * @param version - The version they were saved with
+ */
+export function migrateUserStyle(
+  settings: StoredSettings,
+  version: number
+): StoredSettings {
+  let migrated = settings;
+  for (let v = version; v < SETTINGS_VERSION; v++) {
+    migrated = MIGRATIONS[v]?.(migrated) ?? migrated;
+  }
+  return migrated;
+}
+
+/**
+ * Reads the saved settings, migrated and validated.
+ * @param defaults - Values for anything that isn't saved or is invalid
+ */
+export function loadUserStyle(
+  defaults: UserStyle = DEFAULT_USER_STYLE
+): UserStyle {
+  try {
+    const raw = getItem(STORAGE_KEY);
+    if (!raw) return { ...defaults };
+
+    const stored = JSON.parse(raw);
+    // Before versioning the style object itself was stored
+    const { version, settings } =
+      typeof stored?.version === "number"
+        ? stored
+        : { version: 1, settings: stored };
+    const migrated = migrateUserStyle(settings ?? {}, version);
+    return validateUserStyle(
+      version < SPARSE_SETTINGS_VERSION
+        ? dropScreenDefaults(migrated)
+        : migrated,
+      defaults
+    );
+  } catch (e) {
+    console.error("Failed to load user preferences:", e);
+    return { ...defaults };
+  }
+}
+
+/**
+ * Saves the settings that differ from the defaults, along with the schema
+ * version they follow. The rest come from the defaults again on next load.
+ * @param defaults - The defaults the settings were loaded over
+ */
+export function saveUserStyle(
+  style: UserStyle,
+  defaults: UserStyle = defaultUserStyle()
+): void {
+  const changed = Object.fromEntries(
+    Object.entries(style).filter(
+      ([key, value]) => !sameValue(value, defaults[key as keyof UserStyle])
+    )
+  );
+  try {
+    setItem(
+      STORAGE_KEY,
+      JSON.stringify({ version: SETTINGS_VERSION, settings: changed })
+    );
+  } catch (e) {
+    console.error("Failed to save user preferences:", e);
+  }
+}
+
+/**
+ * Keeps the overridable fields of stored settings that are valid, after
+ * bringing them up to the current version.
+ * @param settings - The stored override
+ * @param version - The version it was saved with
+ */
+function validateStyleOverride(
+  settings: StoredSettings,
+  version: number
+): StyleOverride {
+  const migrated = migrateUserStyle(settings, version);
+  const override: StyleOverride = {};
+  for (const key of OVERRIDABLE_SETTINGS) {
+    if (!(key in migrated)) continue;
+    const value = SCHEMA[key](migrated[key]);
+    if (value === undefined) {
+      console.warn(`Ignoring invalid override "${key}":`, migrated[key]);
+    } else {
+      (override as Record<OverridableSetting, unknown>)[key] = value;
+    }
+  }
+  return override;
+}
+
+/**
+ * Reads the novel -> override map along with its schema version.
+ */
+function loadNovelStyles(): {
+  version: number;
+  styles: Record<string, StoredSettings>;
+} {
+  try {
+    const stored = JSON.parse(getItem(NOVEL_STYLES_KEY) || "null");
+    if (typeof stored?.version === "number" && stored.styles) return stored;
+  } catch (e) {
+    console.error("Failed to load novel styles:", e);
+  }
+  return { version: SETTINGS_VERSION, styles: {} };
+}
+
+/**
+ * Returns the settings a novel overrides, or an empty object.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ */
+export function loadNovelStyle(novelUrl: string): StyleOverride {
+  const { version, styles } = loadNovelStyles();
+  const stored = styles[novelUrl];
+  return stored && typeof stored === "object"
+    ? validateStyleOverride(stored, version)
+    : {};
+}
+
+/**
+ * Stores the settings a novel overrides. An empty override removes the novel.
+ * @param novelUrl The novel URL as found by `extractNovelUrl`.
+ * @param override The settings to use for this novel only.
+ */
+export function saveNovelStyle(
+  novelUrl: string,
+  override: StyleOverride
+): void {
+  const { version, styles } = loadNovelStyles();
+  // Bring the other novels up to date so the map has a single version
+  const current: Record<string, StyleOverride> = {};
+  for (const [url, stored] of Object.entries(styles)) {
+    if (url !== novelUrl) current[url] = validateStyleOverride(stored, version);
+  }
+  if (Object.keys(override).length > 0) current[novelUrl] = override;
+
+  try {
+    setItem(
+      NOVEL_STYLES_KEY,
+      JSON.stringify({ version: SETTINGS_VERSION, styles: current })
+    );
+  } catch (e) {
+    console.error("Failed to save novel styles:", e);
+  }
+}
+
+/**
+ * Returns the settings overridden on this device, or an empty object.
+ */
+export function loadDeviceStyle(): StyleOverride {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DEVICE_STYLE_KEY) || "null");
+    return typeof stored?.version === "number" && stored.settings
+      ? validateStyleOverride(stored.settings, stored.version)
+      : {};
+  } catch (e) {
+    console.error("Failed to load device style:", e);
+    return {};
+  }
+}
+
+/**
+ * Stores the settings overridden on this device.
+ */
+export function saveDeviceStyle(override: StyleOverride): void {
+  try {
+    if (Object.keys(override).length === 0) {
+      localStorage.removeItem(DEVICE_STYLE_KEY);
+    } else {
+      localStorage.setItem(
+        DEVICE_STYLE_KEY,
+        JSON.stringify({ version: SETTINGS_VERSION, settings: override })
+      );
+    }
+  } catch (e) {
+    console.error("Failed to save device style:", e);
+  }
+}
+
+/**
+ * Applies the novel and device overrides on top of the global settings.
+ */
+export function mergeStyleLayers(
+  global: UserStyle,
+  novel: StyleOverride,
+  device: StyleOverride
+): UserStyle {
+  return { ...global, ...novel, ...device };
+}
+
+/**
+ * The layer a setting's resolved value comes from.
+ */
+export function styleSource(
+  key: keyof UserStyle,
+  novel: StyleOverride,
+  device: StyleOverride
+): StyleLayer {
+  if (key in device) return "device";
+  if (key in novel) return "novel";
+  return "global";
+}
+
+/**
+ * Whether a setting can be overridden by a novel or device.
+ */
+export function isOverridable(key: keyof UserStyle): key is OverridableSetting {
+  return (OVERRIDABLE_SETTINGS as readonly string[]).includes(key);
+}
+
+/**
+ * Copies some overridable fields out of a full set of settings.
+ * @param keys - The fields the override should hold; the rest fall through
+ * to the layers below
+ */
+export function pickOverridable(
+  style: UserStyle,
+  keys: readonly OverridableSetting[]
+): StyleOverride {
+  return Object.fromEntries(
+    keys.map((key) => [key, style[key]])
+  ) as StyleOverride;
+}
+
+/**
+ * The overridable settings whose values differ from the layers below.
+ */
+export function differingSettings(
+  style: UserStyle,
+  below: UserStyle
+): OverridableSetting[] {
+  return OVERRIDABLE_SETTINGS.filter(
+    (key) => JSON.stringify(style[key]) !== JSON.stringify(below[key])
+  );
+}
@@ -0,0 +1,147 @@
+export type ShortcutAction =
+  | "nextChapter"
+  | "previousChapter"
+  | "nextPage"
+  | "previousPage"
+  | "scrollDown"
+  | "scrollUp"
+  | "openSettings"
+  | "openChapterList"
+  | "openNotes"
+  | "search"
+  | "toggleTheme"
+  | "increaseFontSize"
+  | "decreaseFontSize"
+  | "closeReader"
+  | "showHelp";
+
+/** Key bindings by action, e.g. "Shift+Space". An empty string is unbound. */
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+// Arrows follow the right-to-left reading direction: left moves forward
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  nextChapter: "ArrowLeft",
+  previousChapter: "ArrowRight",
+  nextPage: "ArrowLeft",
+  previousPage: "ArrowRight",
+  scrollDown: "Space",
+  scrollUp: "Shift+Space",
+  openSettings: "s",
+  openChapterList: "c",
+  openNotes: "n",
+  search: "Ctrl+f",
+  toggleTheme: "t",
+  increaseFontSize: "=",
+  decreaseFontSize: "-",
+  closeReader: "Escape",
+  showHelp: "?",
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  nextChapter: "الفصل التالي",
+  previousChapter: "الفصل السابق",
+  nextPage: "الصفحة التالية (وضع الصفحات)",
+  previousPage: "الصفحة السابقة (وضع الصفحات)",
+  scrollDown: "التمرير للأسفل صفحة",
+  scrollUp: "التمرير للأعلى صفحة",
+  openSettings: "فتح الاعدادات",
+  openChapterList: "فتح قائمة الفصول",
+  openNotes: "فتح الملاحظات",
+  search: "البحث في الفصول",
+  toggleTheme: "تبديل الثيم",
+  increaseFontSize: "تكبير الخط",
+  decreaseFontSize: "تصغير الخط",
+  closeReader: "إغلاق القارئ",
+  showHelp: "عرض الاختصارات",
+};
+
+/**
+ * Actions that only apply in paginated mode. They take precedence there, so
+ * they can share keys with actions from scroll mode.
+ */
+export const PAGINATED_ACTIONS: readonly ShortcutAction[] = [
+  "nextPage",
+  "previousPage",
+];
+
+/**
+ * Whether two actions can't share a key, because both would be active at once.
+ */
+export function shortcutsConflict(
+  a: ShortcutAction,
+  b: ShortcutAction
+): boolean {
+  return PAGINATED_ACTIONS.includes(a) === PAGINATED_ACTIONS.includes(b);
+}
+
+const MODIFIER_KEYS = new Set(["Control", "Alt", "Shift", "Meta"]);
+
+/**
+ * Describes a key press as a binding string like "Ctrl+Shift+ArrowLeft".
+ * Letters and digits come from the physical key so bindings keep working
+ * with an Arabic keyboard layout.
+ * @returns The binding, or null for a lone modifier key
+ */
+export function eventToShortcut(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  const letter = event.code.match(/^(?:Key|Digit)([A-Z0-9])$/);
+  let key = letter ? letter[1].toLowerCase() : event.key;
+  if (key === " ") key = "Space";
+  if (key === "؟") key = "?"; // Arabic layouts put it on the same key
+
+  // Shift is already part of printable symbols like "?" and "+"
+  const printable = key.length === 1 && !letter;
+  const modifiers = [
+    event.ctrlKey && "Ctrl",
+    event.altKey && "Alt",
+    event.metaKey && "Meta",
+    event.shiftKey && !printable && "Shift",
+  ].filter(Boolean);
+
+  return [...modifiers, key].join("+");
+}
+
+/**
+ * Finds the action bound to a key press, if any. In paginated mode the page
+ * actions win over other actions on the same key; otherwise they're skipped.
+ */
+export function findShortcutAction(
+  shortcuts: ShortcutMap,
+  event: KeyboardEvent,
+  paginated = false
+): ShortcutAction | null {
+  const pressed = eventToShortcut(event);
+  if (!pressed) return null;
+  const bound = (Object.keys(shortcuts) as ShortcutAction[]).filter(
+    (action) => shortcuts[action] === pressed
+  );
+  return (
+    bound.find((action) => PAGINATED_ACTIONS.includes(action) === paginated) ??
+    bound.find((action) => !PAGINATED_ACTIONS.includes(action)) ??
+    null
+  );
+}
+
+/**
+ * Whether a key press is going into a text field rather than the reader.
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
+
+/**
+ * Readable form of a binding for the settings and help screens.
+ */
+export function formatShortcut(shortcut: string): string {
+  if (!shortcut) return "—";
+  return shortcut
+    .replace("ArrowLeft", "←")
+    .replace("ArrowRight", "→")
+    .replace("ArrowUp", "↑")
+    .replace("ArrowDown", "↓");
+}
@@ -0,0 +1,162 @@
+import { GM_getValue, GM_setValue } from "$";
+import type { Result } from "./utils";
+
+export type StorageBackendName = "local" | "userscript";
+
+interface StorageBackend {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+}
+
+export interface ReaderDataExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: Record<string, unknown>;
+}
+
+export type ImportError = "invalid-json" | "wrong-format" | "storage";
+
+const EXPORT_FORMAT = "cenele-reader-data";
+const EXPORT_VERSION = 1;
+// Kept in userscript storage, so the choice itself survives a site-data clear
+const BACKEND_KEY = "storageBackend";
+
+// Keys of everything the reader stores, exported and moved between backends
+// together. Modules that add stored data register their key here.
+export const READER_DATA_KEYS = [
+  "userStyle",
+  "novelStyles",
+  "readingProgress",
+  "readChapters",
+  "annotations",
+  "replacementRules",
+];
+
+const localBackend: StorageBackend = {
+  get: (key) => localStorage.getItem(key),
+  set: (key, value) => localStorage.setItem(key, value),
+};
+
+const userscriptBackend: StorageBackend = {
+  get: (key) => GM_getValue<string | null>(key, null),
+  set: (key, value) => GM_setValue(key, value),
+};
+
+/**
+ * Whether the userscript manager granted its storage API. It isn't there when
+ * running from the dev server or an older manager.
+ */
+export function isUserscriptStorageAvailable(): boolean {
+  try {
+    return (
+      typeof GM_getValue === "function" && typeof GM_setValue === "function"
+    );
+  } catch {
+    return false;
+  }
+}
+
+let activeBackend: StorageBackendName | null = null;
+
+/**
+ * The backend reader data is currently kept in.
+ */
+export function getStorageBackendName(): StorageBackendName {
+  activeBackend ??=
+    isUserscriptStorageAvailable() &&
+    GM_getValue<string | null>(BACKEND_KEY, null) === "userscript"
+      ? "userscript"
+      : "local";
+  return activeBackend;
+}
+
+const backend = (): StorageBackend =>
+  getStorageBackendName() === "userscript" ? userscriptBackend : localBackend;
+
+/**
+ * Reads a value from the active backend.
+ */
+export function getItem(key: string): string | null {
+  return backend().get(key);
+}
+
+/**
+ * Writes a value to the active backend.
+ */
+export function setItem(key: string, value: string): void {
+  backend().set(key, value);
+}
+
+/**
+ * Moves all reader data to another backend and makes it the active one.
+ * @param name - The backend to switch to
+ */
+export function switchStorageBackend(name: StorageBackendName): void {
+  const from = backend();
+  const to = name === "userscript" ? userscriptBackend : localBackend;
+  if (from === to) return;
+
+  for (const key of READER_DATA_KEYS) {
+    const value = from.get(key);
+    if (value !== null) to.set(key, value);
+  }
+  // Only the userscript side remembers the choice; the page can't be trusted
+  GM_setValue(BACKEND_KEY, name);
+  activeBackend = name;
+}
+
+/**
+ * Collects all reader data into one JSON-ready object.
+ */
+export function exportReaderData(): ReaderDataExport {
+  const data: Record<string, unknown> = {};
+  for (const key of READER_DATA_KEYS) {
+    const value = getItem(key);
+    if (value === null) continue;
+    try {
+      data[key] = JSON.parse(value);
+    } catch (e) {
+      console.warn(`Skipping unreadable stored data "${key}":`, e);
+    }
+  }
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+  };
+}
+
+/**
+ * Replaces reader data with the contents of an export. Unknown keys are
+ * ignored; each module validates its own data when it next loads it.
+ * @param json - The exported file's text
+ * @returns The keys that were imported
+ */
+export function importReaderData(json: string): Result<string[], ImportError> {
+  let parsed: ReaderDataExport;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { data: null, error: "invalid-json" };
+  }
+  if (
+    parsed?.format !== EXPORT_FORMAT ||
+    typeof parsed.data !== "object" ||
+    parsed.data === null
+  ) {
+    return { data: null, error: "wrong-format" };
+  }
+
+  const imported = READER_DATA_KEYS.filter((key) => key in parsed.data);
+  try {
+    for (const key of imported) {
+      setItem(key, JSON.stringify(parsed.data[key]));
+    }
+  } catch (e) {
+    console.error("Failed to import reader data:", e);
+    return { data: null, error: "storage" };
+  }
+  return { data: imported, error: null };
+}
@@ -0,0 +1,35 @@
+/**
+ * Builds a DOM range covering text offsets within an element.
+ */
+export function rangeForOffsets(el: Element, start: number, end: number): Range {
+  const range = document.createRange();
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  let offset = 0;
+  let startSet = false;
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    const length = node.data.length;
+    if (!startSet && start <= offset + length) {
+      range.setStart(node, start - offset);
+      startSet = true;
+    }
+    if (startSet && end <= offset + length) {
+      range.setEnd(node, end - offset);
+      break;
+    }
+    offset += length;
+  }
+  return range;
+}
+
+/**
+ * The offset of a DOM position into an element's text content, the inverse
+ * of `rangeForOffsets`.
+ */
+export function textOffsetOf(el: Element, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(el);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
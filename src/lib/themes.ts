@@ -0,0 +1,91 @@
+export interface ReaderTheme {
+  id: string;
+  name: string;
+  background: string;
+  text: string;
+  link: string;
+  selection: string;
+  header: string;
+  /** Whether the reader controls around the text should use dark mode. */
+  dark: boolean;
+}
+
+export const BUILT_IN_THEMES: ReaderTheme[] = [
+  {
+    id: "white",
+    name: "ابيض",
+    background: "#ffffff",
+    text: "#000000",
+    link: "#2563eb",
+    selection: "#bfdbfe",
+    header: "#f9fafb",
+    dark: false,
+  },
+  {
+    id: "sepia",
+    name: "البنية",
+    background: "#fffbeb",
+    text: "#292524",
+    link: "#b45309",
+    selection: "#fde68a",
+    header: "#fef3c7",
+    dark: false,
+  },
+  {
+    id: "dark",
+    name: "المظلم",
+    background: "#111827",
+    text: "#f3f4f6",
+    link: "#93c5fd",
+    selection: "#1e40af",
+    header: "#1f2937",
+    dark: true,
+  },
+];
+
+// WCAG AA minimum for body text
+export const MIN_CONTRAST_RATIO = 4.5;
+
+/**
+ * Looks up a theme by id among the built-in and custom themes, falling back
+ * to the first built-in one.
+ */
+export function findTheme(id: string, customThemes: ReaderTheme[]): ReaderTheme {
+  return (
+    [...BUILT_IN_THEMES, ...customThemes].find((theme) => theme.id === id) ??
+    BUILT_IN_THEMES[0]
+  );
+}
+
+/**
+ * CSS variables the reader's `.reader-surface` and `.reader-header` rules
+ * read their colours from.
+ */
+export function themeVariables(theme: ReaderTheme): Record<string, string> {
+  return {
+    "--reader-background": theme.background,
+    "--reader-text": theme.text,
+    "--reader-link": theme.link,
+    "--reader-selection": theme.selection,
+    "--reader-header": theme.header,
+  };
+}
+
+// Relative luminance of a "#rrggbb" colour, as defined by WCAG
+function luminance(hex: string): number {
+  const channels = [1, 3, 5].map((i) => {
+    const value = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return value <= 0.03928
+      ? value / 12.92
+      : Math.pow((value + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * channels[0] + 0.7152 * channels[1] + 0.0722 * channels[2];
+}
+
+/**
+ * WCAG contrast ratio between two "#rrggbb" colours, from 1 to 21.
+ */
+export function contrastRatio(a: string, b: string): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
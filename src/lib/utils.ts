@@ -39,7 +39,7 @@ type Failure<E> = {
   error: E;
 };
 
-type Result<T, E = Error> = Success<T> | Failure<E>;
+export type Result<T, E = Error> = Success<T> | Failure<E>;
 
 // Main wrapper function
 export async function tryCatch<T, E = Error>(
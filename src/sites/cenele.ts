@@ -0,0 +1,8 @@
+import { createMadaraAdapter } from "./madara";
+
+export const ceneleAdapter = createMadaraAdapter({
+  name: "cenele",
+  hostnames: ["cenele.com"],
+  language: "ar",
+  settingsContainerSelector: "#reader-settings",
+});
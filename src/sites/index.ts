@@ -0,0 +1,19 @@
+import { ceneleAdapter } from "./cenele";
+import type { SiteAdapter } from "./types";
+
+export type { SiteAdapter } from "./types";
+
+// Every supported site. Adding one here also needs its hostname added to the
+// userscript `match` list in vite.config.ts.
+const SITE_ADAPTERS: SiteAdapter[] = [ceneleAdapter];
+
+/**
+ * Picks the adapter for a hostname, ignoring a leading "www.".
+ * @param hostname The page's hostname, e.g. `location.hostname`.
+ */
+export function findSiteAdapter(hostname: string): SiteAdapter | null {
+  const host = hostname.replace(/^www\./, "");
+  return (
+    SITE_ADAPTERS.find((adapter) => adapter.hostnames.includes(host)) ?? null
+  );
+}
@@ -0,0 +1,216 @@
+import { type ChapterSelectors, parseChapter } from "~/lib/parseChapter";
+import type { Chapter, NovelMetadata } from "~/types";
+import type { SiteAdapter } from "./types";
+
+// Scripts and styles the Madara theme and its usual plugins inject
+const MADARA_HEAD_SELECTORS: string[] = [
+  "#bootstrap-css",
+  "#bootstrap-js",
+  "#jquery-js",
+  "#jquery-css",
+  "#fontawesome-css",
+  "#fontawesome-js",
+  "#toastr-js",
+  "#toastr-css",
+  "#madara-css-css",
+  "#child-style-css",
+  "#slick-theme-css",
+  "#slick-css",
+  "#ionicons-css",
+  "#madara-icons-css",
+  "#loaders-css",
+  "#wp-pagenavi-css",
+  "#jquery-core-js",
+  "#jquery-migrate-js",
+  "#wp-custom-css",
+];
+
+const MADARA_CHAPTER_SELECTORS: ChapterSelectors = {
+  id: [
+    {
+      selector: 'a.wp-manga-action-button[data-action="bookmark"]',
+      attribute: "data-chapter",
+    },
+    { selector: "#wp-manga-current-chap", attribute: "data-id" },
+  ],
+  title: ["#chapter-heading"],
+  content: [
+    ".text-right", // Adjusted selector based on common Madara themes, verify this!
+    ".reading-content .entry-content", // Another common selector
+    ".text-left", // Original fallback selector
+  ],
+};
+
+interface MadaraAdapterOptions {
+  name: string;
+  hostnames: string[];
+  language: string;
+  extraHeadSelectors?: string[]; // Site specific additions to the defaults
+  chapterSelectors?: Partial<ChapterSelectors>; // Replace the defaults per field
+  settingsContainerSelector?: string;
+  fetchOptions?: RequestInit;
+}
+
+/**
+ * Builds an adapter for a site running the WordPress Madara theme. Most of
+ * them share the theme's markup, so only the differences need passing in.
+ */
+export function createMadaraAdapter(options: MadaraAdapterOptions): SiteAdapter {
+  const chapterSelectors = {
+    ...MADARA_CHAPTER_SELECTORS,
+    ...options.chapterSelectors,
+  };
+  const headSelectors = [
+    ...MADARA_HEAD_SELECTORS,
+    ...(options.extraHeadSelectors ?? []),
+  ];
+
+  return {
+    name: options.name,
+    hostnames: options.hostnames,
+    language: options.language,
+    fetchOptions: options.fetchOptions,
+
+    isReadingPage: (doc) => doc.body.classList.contains("reading-manga"),
+
+    findSettingsContainer: (doc) =>
+      doc.querySelector(
+        options.settingsContainerSelector ?? "#manga-reading-nav-head"
+      ),
+
+    extractChapterList,
+    extractNovelUrl,
+    extractNovelMetadata: (doc, novelUrl) => ({
+      ...extractNovelMetadata(doc, novelUrl),
+      language: options.language,
+    }),
+    parseChapter: (doc, uri) => parseChapter(doc, uri, chapterSelectors),
+
+    cleanupHead: (doc) => {
+      headSelectors.forEach((selector) => {
+        doc.head.querySelector(selector)?.remove();
+      });
+      console.log("Removed legacy scripts and styles.");
+    },
+  };
+}
+
+/**
+ * Extracts the list of chapters from the dropdown menu.
+ * Reverses the list, filters invalid options, and assigns an index-based ID.
+ */
+function extractChapterList(doc: Document): Chapter[] {
+  const selectElements = doc.querySelectorAll<HTMLSelectElement>(
+    // More specific selector focusing on the select itself
+    "#manga-reading-nav-head select.selectpicker_chapter" // Adjust if this selector isn't unique enough
+    // Original selector was very long: "#manga-reading-nav-head > div > div.select-view > div.c-selectpicker.selectpicker_chapter.chapters_selectbox_holder > label> select"
+  );
+
+  if (!selectElements) {
+    console.warn("Chapter select dropdown not found.");
+    return [];
+  }
+
+  // 1. Get options, convert to array, reverse order (often newest first in dropdown)
+  const reversedOptions = Array.from(selectElements)
+    // Use flatMap to both transform and flatten the array.
+    .flatMap((select) =>
+      [...(select.children as HTMLCollectionOf<HTMLOptionElement>)].reverse()
+    );
+
+  // 2. Filter out invalid options and map to intermediate structure
+  const validChapters = reversedOptions
+    .map((option) => ({
+      value: option.getAttribute("data-redirect") ?? option.value,
+      text: option.innerText?.trim() ?? "", // Trim whitespace
+      selected: option.selected,
+    }))
+    .filter((chapter) => chapter.value && chapter.text && chapter.value !== ""); // Ensure value and text exist
+
+  // 3. Map to the final structure, adding the index-based 'id'
+  const chapterListData = validChapters.map((chapter, index) => ({
+    ...chapter,
+    id: index, // ID is the index in the *final, filtered, reversed* list
+  }));
+
+  if (chapterListData.length === 0) {
+    console.warn("No valid chapters found in the dropdown after filtering.");
+  } else {
+    console.log(`Extracted ${chapterListData.length} chapters.`);
+  }
+
+  return chapterListData;
+}
+
+/**
+ * Extracts the base URL for the novel/manga.
+ * Tries a specific selector first, then falls back to parsing the page URL.
+ */
+function extractNovelUrl(doc: Document, pageUrl: string): string {
+  const breadcrumbLink = doc.querySelector<HTMLAnchorElement>(
+    "#manga-reading-nav-head .c-breadcrumb ol li:nth-child(2) a" // Simplified selector
+  );
+
+  if (breadcrumbLink?.href) {
+    return breadcrumbLink.href;
+  }
+
+  // Fallback: Extract from the page URL (e.g., "https://site.com/manga/novel-slug/chapter-1" -> "https://site.com/manga/novel-slug")
+  // This fallback might need adjustment based on the exact URL structure
+  console.warn(
+    "Could not find novel URL in breadcrumbs, attempting URL parsing fallback."
+  );
+  const url = new URL(pageUrl);
+  const pathSegments = url.pathname.split("/").filter(Boolean); // Filter empty segments
+  if (pathSegments.length >= 2) {
+    // Assuming structure is /type/novel-slug/...
+    return `${url.origin}/${pathSegments[0]}/${pathSegments[1]}`;
+  }
+  // Ultimate fallback if parsing fails
+  console.error("Could not determine novel URL.");
+  return url.origin; // Just return the base site URL
+}
+
+/**
+ * Extracts the novel's details from its page, preferring the theme's markup
+ * and falling back to Open Graph tags.
+ */
+function extractNovelMetadata(
+  doc: Document,
+  novelUrl: string
+): Omit<NovelMetadata, "language"> {
+  const text = (selector: string) =>
+    doc.querySelector(selector)?.textContent?.trim() || null;
+  const meta = (property: string) =>
+    doc
+      .querySelector(`meta[property="${property}"]`)
+      ?.getAttribute("content") || null;
+
+  // Badges like "HOT" or "NEW" live inside the heading
+  const heading = doc.querySelector(".post-title h1")?.cloneNode(true) as
+    | HTMLElement
+    | undefined;
+  heading?.querySelectorAll("span").forEach((badge) => badge.remove());
+
+  const authors = Array.from(
+    doc.querySelectorAll(".author-content a"),
+    (link) => link.textContent?.trim()
+  ).filter(Boolean);
+
+  const cover = doc.querySelector(".summary_image img");
+  const coverSrc =
+    cover?.getAttribute("data-src") ??
+    cover?.getAttribute("src") ??
+    meta("og:image");
+
+  return {
+    url: novelUrl,
+    title: heading?.textContent?.trim() || meta("og:title") || novelUrl,
+    author: authors.join("، ") || null,
+    description:
+      text(".summary__content") ??
+      text(".description-summary") ??
+      meta("og:description"),
+    coverUrl: coverSrc ? new URL(coverSrc, novelUrl).href : null,
+  };
+}
@@ -0,0 +1,37 @@
+import type { ParsedChapter } from "~/lib/parseChapter";
+import type { Chapter, NovelMetadata } from "~/types";
+
+/**
+ * Everything the reader needs to know about a particular site: where its
+ * chapter list, content and novel link live, what to strip from the page, and
+ * how to fetch from it.
+ */
+export interface SiteAdapter {
+  name: string;
+  hostnames: string[]; // Exact hostnames, "www." is stripped before matching
+  language: string; // Language the site's novels are published in, e.g. "ar"
+
+  /** Whether the document is a chapter page the reader can take over. */
+  isReadingPage(doc: Document): boolean;
+
+  /** Element to put the "enable reader" button in when the reader is off. */
+  findSettingsContainer(doc: Document): Element | null;
+
+  /** The novel's chapter list, in reading order, with index-based ids. */
+  extractChapterList(doc: Document): Chapter[];
+
+  /** Base URL of the novel the chapter page belongs to. */
+  extractNovelUrl(doc: Document, pageUrl: string): string;
+
+  /** Title, author, summary and cover from the novel's own page. */
+  extractNovelMetadata(doc: Document, novelUrl: string): NovelMetadata;
+
+  /** The chapter shown by a chapter page (content is not yet sanitized). */
+  parseChapter(doc: Document, uri: string): ParsedChapter;
+
+  /** Removes the site's own scripts and styles before the reader renders. */
+  cleanupHead(doc: Document): void;
+
+  /** Extra options for chapter requests (credentials, headers, ...). */
+  fetchOptions?: RequestInit;
+}
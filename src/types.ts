@@ -0,0 +1,30 @@
+import type { ChapterDiagnostics } from "./lib/parseChapter";
+import type { SanitizeReport } from "./lib/sanitize";
+
+// An entry of the novel's chapter list, as extracted from the chapter dropdown
+export interface Chapter {
+  id: number; // Index in the list
+  value: string; // URL or identifier for the chapter
+  text: string; // Display text (e.g., "Chapter 5")
+  selected: boolean; // Whether this was the initially selected chapter
+}
+
+// A chapter that has been loaded and can be rendered by the reader
+export interface ChapterData {
+  id: number;
+  uri: string;
+  title: string;
+  content: string;
+  sanitizeReport?: SanitizeReport; // What was stripped from the content
+  diagnostics?: ChapterDiagnostics; // How the page was parsed
+}
+
+// Details of a novel, as found on its page
+export interface NovelMetadata {
+  url: string;
+  title: string;
+  author: string | null;
+  description: string | null;
+  coverUrl: string | null;
+  language: string; // BCP 47 tag, e.g. "ar"
+}
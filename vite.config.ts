@@ -20,7 +20,10 @@ export default defineConfig({
         open: false,
       },
       userscript: {
+        // One entry per site adapter in src/sites/index.ts
         match: ['https://cenele.com/*'],
+        // The challenge banner loads chapter pages in an iframe
+        noframes: true,
         icon: "https://www.google.com/s2/favicons?sz=64&domain=cenele.com",
         namespace: "darkless/cenele",
         author: "Darkless",
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Kept apart from vite.config.ts so tests don't go through the userscript
+// build
+export default defineConfig({
+  resolve: {
+    alias: {
+      "~": path.resolve(__dirname, "./src"),
+      $: path.resolve(__dirname, "./src/__mocks__/userscript.ts"),
+    },
+  },
+  test: {
+    environment: "jsdom",
+  },
+});